@@ -1,12 +1,123 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
+import {
+  annotationSignatures,
+  fetchFailureAnnotations,
+  FailureAnnotation,
+} from './lib/annotations';
 import { getConfig } from './lib/config';
 import { buildContext } from './lib/context';
 import { autoDetectCategory } from './lib/category';
-import { computeFingerprint } from './lib/fingerprint';
+import { raceWinner, yieldToWinner } from './lib/create-race';
+import { parseErrors, ParsedError, toSignatures } from './lib/error-parsers';
+import { explainFingerprint, renderExplanation } from './lib/fingerprint-explain';
+import {
+  applyFingerprintRules,
+  loadFingerprintRules,
+  NO_FINGERPRINT_RULES,
+} from './lib/fingerprint-rules';
+import {
+  parseFingerprintScope,
+  parseMatrix,
+  scopedContext,
+  scopeValues,
+} from './lib/fingerprint-scope';
+import {
+  computeFingerprints,
+  FINGERPRINT_VERSION,
+  FingerprintInput,
+  migrateFingerprint,
+  VersionedFingerprints,
+} from './lib/fingerprint-versions';
 import { renderBody } from './lib/render';
+import { foldIntoCap } from './lib/issue-cap';
 import { IssueManager } from './lib/issue-manager';
+import {
+  findIssueByMetadata,
+  nextMetadata,
+  readMetadata,
+  writeMetadata,
+} from './lib/issue-metadata';
+import {
+  DEFAULT_LOOKUP_LIMIT,
+  findIssueByTitle,
+  Issue,
+  IssueTarget,
+  listFailureIssues,
+  lookupFailureIssues,
+} from './lib/issues';
+import { listFailedJobs, listPassingJobs } from './lib/jobs';
+import { loadTestReports, TestReport, testSignatures } from './lib/junit';
+import { excerptJobLog, fetchFailedJobLog, LogExcerpt } from './lib/logs';
+import {
+  commentOccurrence,
+  FailureReport,
+  minimizeOldOccurrences,
+  OccurrenceRun,
+  refreshHeader,
+  summaryHeader,
+} from './lib/occurrences';
+import { loadProblemMatchers, problemMatcherParsers } from './lib/problem-matchers';
+import { backOff } from './lib/rate-limit';
 import { redactText } from './lib/redact';
+import {
+  findClosedMatch,
+  previousIssueNote,
+  reopenAsRegression,
+  withinReopenWindow,
+} from './lib/regression';
+import { resolveIssues } from './lib/resolve';
+import { linkCodeScanningAlerts, loadSarifFiles, sarifSignatures, SarifSummary } from './lib/sarif';
+import { attachToSimilar, simhash, simhashMarker } from './lib/similarity';
+import { parseStackTraces, stackSignatures, StackTrace } from './lib/stack-traces';
+import { listWorkflowNames, sweepReport, sweepStaleIssues } from './lib/sweep';
+import { loadTerraformFiles, terraformSignatures, TerraformSummary } from './lib/terraform';
+import { parseTrackingMode, readTracking, TrackedChild, trackChildren } from './lib/tracking';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+type RunContext = ReturnType<typeof buildContext> & {
+  logExcerpt?: LogExcerpt;
+  annotations?: FailureAnnotation[];
+  parsedErrors?: ParsedError[];
+  stackTraces?: StackTrace[];
+  testReport?: TestReport;
+  sarif?: SarifSummary;
+  terraform?: TerraformSummary;
+};
+
+/** What each mode needs from the run, set up once by run(). */
+interface ActionEnv {
+  octokit: Octokit;
+  inputs: ReturnType<typeof getConfig>;
+  ghCtx: RunContext;
+  category: string;
+  /** Dimensions of the `fingerprint-scope` input. */
+  scope: string[];
+  target: IssueTarget;
+  occurrenceRun: OccurrenceRun;
+  lookupLimit: number;
+  fingerprintInput(errorSignatures: string[]): FingerprintInput;
+  /** Scoped names of the jobs the run reports on, listed by `list`. */
+  reportedJobs(list: typeof listFailedJobs): Promise<string[]>;
+  /** Update the workflow's tracking issue, if enabled; warns on failure. */
+  track(workflow: string, children: TrackedChild[], issues: Issue[]): Promise<void>;
+}
+
+function describeError(err: unknown): string {
+  return (err as Error)?.message ?? String(err);
+}
+
+function skipWarning(kind: string) {
+  return (file: string, err: unknown) =>
+    core.warning(`Skipping ${kind} ${file}: ${describeError(err)}`);
+}
+
+function setIssueOutputs(issue: { number: number; html_url: string }, deduped: boolean) {
+  core.setOutput('issue-number', issue.number);
+  core.setOutput('issue-url', issue.html_url);
+  core.setOutput('deduped', String(deduped));
+}
 
 async function run(): Promise<void> {
   try {
@@ -14,7 +125,7 @@ async function run(): Promise<void> {
     const octokit = github.getOctokit(token);
 
     const inputs = getConfig();
-    const ghCtx = buildContext(inputs);
+    const ghCtx: RunContext = buildContext(inputs);
 
     // Category
     let category = inputs.category;
@@ -27,14 +138,83 @@ async function run(): Promise<void> {
     }
     core.setOutput('detected-category', category);
 
-    if (inputs.mode === 'close-on-success') {
-      const manager = new IssueManager(octokit, inputs, ghCtx);
-      const fp = computeFingerprint({ ctx: ghCtx, category, errorSignatures: [] });
-      const closed = await manager.closeIfOpenByFingerprint(fp);
-      core.setOutput('fingerprint', fp);
-      core.setOutput('resolved', String(closed));
-      return;
-    }
+    // Fingerprint scope: extra context dimensions that split issues
+    const scope = parseFingerprintScope(core.getInput('fingerprint-scope'));
+    const matrix = parseMatrix(core.getInput('matrix'));
+    const scoped = scopeValues(scope, ghCtx, matrix);
+    const fingerprintCtx = scopedContext(ghCtx, scoped);
+    const fingerprintInput = (errorSignatures: string[]): FingerprintInput => ({
+      repository: fingerprintCtx.repository,
+      workflow: fingerprintCtx.workflow.name,
+      job: fingerprintCtx.workflow.job,
+      category,
+      errorSignatures,
+    });
+
+    // Jobs the run reports on, as recorded and matched in the metadata: the `job`
+    // input, else the run's failed (or passing) jobs, which need not be the job
+    // running the action (`needs: [build]`); that job when they cannot be listed
+    const reportedJobs = async (list: typeof listFailedJobs): Promise<string[]> => {
+      const scopeJob = (job: string) => scopedContext({ workflow: { job } }, scoped).workflow.job;
+      const explicit = core.getInput('job');
+      if (explicit) return [scopeJob(explicit)];
+      try {
+        const jobs = await list(octokit, ghCtx);
+        if (jobs.length) return jobs.map((j) => scopeJob(j.name));
+      } catch (err) {
+        core.warning(`Could not list the run's jobs: ${describeError(err)}`);
+      }
+      return [fingerprintCtx.workflow.job];
+    };
+
+    const target = {
+      owner: ghCtx.targetOwner || ghCtx.owner,
+      repo: ghCtx.targetRepo || ghCtx.repo,
+    };
+
+    // Optional parent issue per workflow listing its failure issues
+    const trackingMode = parseTrackingMode(core.getInput('tracking-issue'));
+    const track = async (workflow: string, children: TrackedChild[], issues: Issue[]) => {
+      if (trackingMode === 'none' || !children.length) return;
+      try {
+        const parent = await trackChildren(
+          octokit,
+          target,
+          inputs.failureLabel,
+          issues,
+          ghCtx.repository,
+          workflow,
+          children,
+          trackingMode
+        );
+        core.setOutput('tracking-issue-number', parent);
+      } catch (err) {
+        core.warning(`Could not update the tracking issue: ${describeError(err)}`);
+      }
+    };
+
+    const env: ActionEnv = {
+      octokit,
+      inputs,
+      ghCtx,
+      category,
+      scope,
+      target,
+      occurrenceRun: {
+        runUrl: `${ghCtx.serverUrl}/${ghCtx.repository}/actions/runs/${ghCtx.workflow.runId}`,
+        runNumber: String(ghCtx.workflow.runNumber),
+        sha: ghCtx.sha,
+        commitUrl: ghCtx.commitUrl,
+        branch: ghCtx.branch || ghCtx.ref,
+      },
+      lookupLimit: Number(core.getInput('issue-lookup-limit')) || DEFAULT_LOOKUP_LIMIT,
+      fingerprintInput,
+      reportedJobs,
+      track,
+    };
+
+    if (inputs.mode === 'close-on-success') return await closeOnSuccess(env);
+    if (inputs.mode === 'sweep') return await sweep(env);
 
     // Snooze
     if (inputs.snoozeUntil) {
@@ -45,33 +225,473 @@ async function run(): Promise<void> {
       }
     }
 
-    // Compute fingerprint early
-    const fingerprint = computeFingerprint({ ctx: ghCtx, category, errorSignatures: ghCtx.errorSignatures || [] });
-    core.setOutput('fingerprint', fingerprint);
+    await collectFailureDetails(env);
+    await reportFailure(env);
+  } catch (err: any) {
+    core.setFailed(err?.message ?? String(err));
+  }
+}
 
-    const manager = new IssueManager(octokit, inputs, ghCtx);
-    const existing = await manager.findExistingByFingerprint(fingerprint);
+/** close-on-success: resolve the issues of the jobs that passed. */
+async function closeOnSuccess(env: ActionEnv): Promise<void> {
+  const { octokit, inputs, ghCtx, target, occurrenceRun } = env;
+  // Resolves by workflow/job from the metadata block; the fingerprint of
+  // empty error lines only matches issues created without one
+  const { current: fp, previous } = computeFingerprints(
+    env.fingerprintInput([]),
+    NO_FINGERPRINT_RULES
+  );
+  const open = await lookupFailureIssues(
+    octokit,
+    target,
+    inputs.failureLabel,
+    'open',
+    [fp, ...previous],
+    env.lookupLimit
+  );
+  const matchBranch = core.getInput('close-match-branch') === 'true';
+  const scope = {
+    repository: ghCtx.repository,
+    workflow: ghCtx.workflow.name,
+    jobs: await env.reportedJobs(listPassingJobs),
+    branch: matchBranch ? occurrenceRun.branch : undefined,
+  };
+  // Flaky jobs: close only after close-after-successes green runs in a row
+  const required = Number(core.getInput('close-after-successes')) || 1;
+  const passingRun = {
+    ...occurrenceRun,
+    runId: ghCtx.workflow.runId,
+    repo: { owner: ghCtx.owner, repo: ghCtx.repo },
+  };
+  const closed = await resolveIssues(
+    octokit,
+    target,
+    open,
+    scope,
+    [fp, ...previous],
+    passingRun,
+    required
+  );
+  for (const issue of closed) core.info(`Resolved #${issue.number}`);
+  await env.track(
+    ghCtx.workflow.name,
+    closed.map((i) => ({ number: i.number, title: i.title, open: false })),
+    open
+  );
+  core.setOutput('fingerprint', fp);
+  core.setOutput('resolved', String(closed.length > 0));
+  core.setOutput('resolved-count', closed.length);
+  core.setOutput('resolved-issues', closed.map((i) => i.number).join(','));
+}
 
-    const template = await manager.loadTemplate(category);
-    const bodyUnredacted = await renderBody({
-      template,
-      inputs,
-      ctx: ghCtx,
-      category,
+/** Sweep (scheduled): generated issues of deleted/renamed or long-quiet workflows. */
+async function sweep(env: ActionEnv): Promise<void> {
+  const { octokit, inputs, ghCtx, target } = env;
+  const options = {
+    days: Number(core.getInput('stale-days') || '30'),
+    label: core.getInput('stale-label'),
+    comment: core.getInput('stale-comment'),
+    close: core.getInput('stale-close') !== 'false',
+  };
+  const dryRun = core.getInput('dry-run') === 'true';
+  const open = await listFailureIssues(
+    octokit,
+    target,
+    inputs.failureLabel,
+    'open',
+    env.lookupLimit
+  );
+  // Workflows of this repository; a cross-repo target also holds other repos' issues
+  const workflows = await listWorkflowNames(octokit, { owner: ghCtx.owner, repo: ghCtx.repo });
+  const stale = await sweepStaleIssues(
+    octokit,
+    target,
+    open,
+    ghCtx.repository,
+    workflows,
+    ghCtx.timestamp,
+    options,
+    dryRun
+  );
+  if (!dryRun) {
+    const children = stale.filter((s) => options.close && !readTracking(s.issue.body));
+    for (const workflow of new Set(children.map((s) => s.workflow))) {
+      const closed = children.filter((s) => s.workflow === workflow);
+      await env.track(
+        workflow,
+        closed.map((s) => ({ number: s.issue.number, title: s.issue.title, open: false })),
+        open
+      );
+    }
+  }
+  await core.summary.addRaw(sweepReport(stale, options, dryRun)).write();
+  core.info(`${stale.length} stale issue(s)${dryRun ? ' (dry run, unchanged)' : ''}`);
+  core.setOutput('swept-count', stale.length);
+  core.setOutput('swept-issues', stale.map((s) => s.issue.number).join(','));
+}
+
+/**
+ * Error sources of the failed run, onto `env.ghCtx`: logs, annotations, test
+ * reports, SARIF and Terraform output, each replacing the error lines.
+ */
+async function collectFailureDetails(env: ActionEnv): Promise<void> {
+  const { octokit, inputs, ghCtx, category } = env;
+
+  // Logs
+  let fromLogs = false;
+  if (inputs.includeLogs) {
+    try {
+      const log = await fetchFailedJobLog(octokit, ghCtx);
+      const excerpt = log && excerptJobLog(log);
+      if (log && excerpt) {
+        ghCtx.logExcerpt = excerpt;
+        const matcherPaths = core.getInput('problem-matcher-paths');
+        const matchers = matcherPaths
+          ? await loadProblemMatchers(matcherPaths, skipWarning('problem matcher'))
+          : [];
+        ghCtx.parsedErrors = parseErrors(log.lines, category, problemMatcherParsers(matchers));
+        ghCtx.stackTraces = parseStackTraces(log.lines, ghCtx);
+        const stacks = stackSignatures(ghCtx.stackTraces);
+        if (ghCtx.parsedErrors.length) ghCtx.errorSignatures = toSignatures(ghCtx.parsedErrors);
+        else if (stacks.length) ghCtx.errorSignatures = stacks;
+        else ghCtx.errorSignatures = excerpt.errorLines;
+        fromLogs = true;
+      }
+    } catch (err) {
+      core.warning(`Could not fetch job logs: ${describeError(err)}`);
+    }
+  }
+
+  // Annotations, when logs are disabled or not accessible
+  if (!fromLogs) {
+    try {
+      const annotations = await fetchFailureAnnotations(octokit, ghCtx);
+      if (annotations.length > 0) {
+        ghCtx.annotations = annotations;
+        if (!ghCtx.errorSignatures?.length) {
+          ghCtx.errorSignatures = annotationSignatures(annotations);
+        }
+      }
+    } catch (err) {
+      core.warning(`Could not fetch check-run annotations: ${describeError(err)}`);
+    }
+  }
+
+  // Test reports
+  const testReportPaths = core.getInput('test-report-paths');
+  if (testReportPaths) {
+    const report = await loadTestReports(testReportPaths, skipWarning('test report'));
+    if (report && report.failed > 0) {
+      ghCtx.testReport = report;
+      ghCtx.errorSignatures = testSignatures(report);
+    }
+  }
+
+  // SARIF
+  const sarifPaths = core.getInput('sarif-paths');
+  if (sarifPaths) {
+    const sarif = await loadSarifFiles(sarifPaths, skipWarning('SARIF file'));
+    if (sarif && sarif.findings.length > 0) {
+      try {
+        await linkCodeScanningAlerts(octokit, ghCtx, sarif.findings, env.lookupLimit);
+      } catch (err) {
+        core.warning(`Could not look up code-scanning alerts: ${describeError(err)}`);
+      }
+      ghCtx.sarif = sarif;
+      if (category === 'security-scan') ghCtx.errorSignatures = sarifSignatures(sarif.findings);
+    }
+  }
+
+  // Terraform
+  const terraformPaths = core.getInput('terraform-json-paths');
+  if (terraformPaths) {
+    const tf = await loadTerraformFiles(terraformPaths, skipWarning('Terraform JSON'));
+    if (tf && (tf.diagnostics.length > 0 || tf.destructive.length > 0)) {
+      ghCtx.terraform = tf;
+      // Warnings-only output gives no signatures; keep those from the log then
+      const signatures = terraformSignatures(tf);
+      if (category === 'terraform-validation' && signatures.length) {
+        ghCtx.errorSignatures = signatures;
+      }
+    }
+  }
+}
+
+/**
+ * Fingerprint of the failure under the repo's normalize/ignore rules, with
+ * its explanation when `fingerprint-explain` is on.
+ */
+async function fingerprintFailure(env: ActionEnv): Promise<VersionedFingerprints> {
+  const { inputs, ghCtx } = env;
+
+  // Repo-defined normalize/ignore rules
+  let rules = NO_FINGERPRINT_RULES;
+  try {
+    rules = loadFingerprintRules(inputs.configPath);
+  } catch (err) {
+    core.warning(`Ignoring fingerprint rules in ${inputs.configPath}: ${describeError(err)}`);
+  }
+  const rawSignatures: string[] = ghCtx.errorSignatures || [];
+  ghCtx.errorSignatures = applyFingerprintRules(rawSignatures, rules);
+
+  // Older algorithm versions are matched too, for migration
+  const fingerprints = computeFingerprints(env.fingerprintInput(rawSignatures), rules);
+  core.setOutput('fingerprint', fingerprints.current);
+
+  if (core.getInput('fingerprint-explain') === 'true') {
+    const explanation = explainFingerprint({
+      input: env.fingerprintInput(rawSignatures),
+      scope: env.scope,
+      fingerprints,
+      redact: redactText,
+    });
+    core.setOutput('fingerprint-explain', JSON.stringify(explanation));
+    // Debugging aid only: an unwritable job summary must not stop the report
+    try {
+      await core.summary.addRaw(renderExplanation(explanation)).write();
+    } catch (err) {
+      core.warning(`Could not write the fingerprint explanation summary: ${describeError(err)}`);
+    }
+  }
+  return fingerprints;
+}
+
+interface FailureIssue {
+  /** Open failure issues of the target, as looked up for the fingerprints. */
+  openIssues: Issue[];
+  /** Issue tracking the fingerprint: open, migrated or reopened as a regression. */
+  existing: Issue | null;
+  regressed: boolean;
+  /** Closed match outside reopen-window-days, linked from a new issue. */
+  previousIssue: Issue | null;
+}
+
+/**
+ * The issue already tracking `fingerprints`, under any algorithm version.
+ * Without `dedupe` the open issues are only listed, for the cap and tracking.
+ */
+async function findFailureIssue(
+  env: ActionEnv,
+  fingerprints: VersionedFingerprints,
+  dedupe: boolean
+): Promise<FailureIssue> {
+  const { octokit, inputs, ghCtx, target, lookupLimit } = env;
+  const { current: fingerprint, previous } = fingerprints;
+
+  // One bounded listing of the target's open failure issues serves every
+  // lookup below; past issue-lookup-limit, search fills in the fingerprints
+  const candidates = [fingerprint, ...previous];
+  const openIssues = await lookupFailureIssues(
+    octokit,
+    target,
+    inputs.failureLabel,
+    'open',
+    candidates,
+    lookupLimit
+  );
+  if (!dedupe) {
+    core.setOutput('regressed', 'false');
+    return { openIssues, existing: null, regressed: false, previousIssue: null };
+  }
+
+  // The metadata block survives title edits; the title is the fallback
+  const tagged = findIssueByMetadata(openIssues, candidates);
+  let existing: Issue | null = tagged?.issue ?? findIssueByTitle(openIssues, fingerprint);
+  let migrateFrom = tagged?.metadata.fingerprint ?? fingerprint;
+  for (const legacy of previous) {
+    if (existing) break;
+    existing = findIssueByTitle(openIssues, legacy);
+    if (existing) migrateFrom = legacy;
+  }
+  if (existing && migrateFrom !== fingerprint) {
+    core.info(`Migrating #${existing.number} from fingerprint ${migrateFrom} to ${fingerprint}`);
+    existing = await migrateFingerprint(octokit, target, existing, migrateFrom, fingerprint);
+  }
+
+  // A closed match is reopened inside reopen-window-days, cross-linked after
+  let regressed = false;
+  let previousIssue: Issue | null = null;
+  if (!existing) {
+    const closedIssues = await lookupFailureIssues(
+      octokit,
+      target,
+      inputs.failureLabel,
+      'closed',
+      candidates,
+      lookupLimit
+    );
+    const closed = findClosedMatch(closedIssues, candidates);
+    const days = Number(core.getInput('reopen-window-days') || '0');
+    if (closed && withinReopenWindow(closed.closed_at, ghCtx.timestamp, days)) {
+      core.info(`Reopening #${closed.number} as a regression`);
+      existing = await reopenAsRegression(octokit, target, closed, env.occurrenceRun);
+      regressed = true;
+    } else {
+      previousIssue = closed;
+    }
+  }
+  core.setOutput('regressed', String(regressed));
+  return { openIssues, existing, regressed, previousIssue };
+}
+
+/** Create path: open, update or comment on the failure's issue, after dedupe. */
+async function reportFailure(env: ActionEnv): Promise<void> {
+  const { octokit, inputs, ghCtx, category, target, occurrenceRun, track } = env;
+  const fingerprints = await fingerprintFailure(env);
+  const fingerprint = fingerprints.current;
+  // always-create-new and dedupe-strategy none: no lookup, migration,
+  // regression, backoff or race check; every failure opens an issue
+  const dedupe = !inputs.alwaysCreateNew && inputs.dedupeStrategy !== 'none';
+  const { openIssues, existing, regressed, previousIssue } = await findFailureIssue(
+    env,
+    fingerprints,
+    dedupe
+  );
+
+  const manager = new IssueManager(octokit, inputs, ghCtx);
+  const template = await manager.loadTemplate(category);
+  const bodyUnredacted = await renderBody({
+    template,
+    inputs,
+    ctx: ghCtx,
+    category,
+    fingerprint,
+  });
+
+  // Similarity dedupe keeps a simhash of the error lines next to each issue
+  const hash = inputs.dedupeStrategy === 'similarity' ? simhash(ghCtx.errorSignatures || []) : '';
+  const rendered = [
+    previousIssue && previousIssueNote(previousIssue),
+    redactText(bodyUnredacted),
+    simhashMarker(hash),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+  const [failedJob] = await env.reportedJobs(listFailedJobs);
+  const report: FailureReport = {
+    occurrence: {
       fingerprint,
+      fingerprintVersion: FINGERPRINT_VERSION,
+      category,
+      repository: ghCtx.repository,
+      workflow: ghCtx.workflow.name,
+      job: failedJob,
+      branch: occurrenceRun.branch,
+      sha: ghCtx.sha,
+      runId: ghCtx.workflow.runId,
+      timestamp: ghCtx.timestamp,
+      errorSignatures: (ghCtx.errorSignatures || []).map((l: string) => redactText(l)),
+    },
+    run: occurrenceRun,
+    rendered,
+  };
+  const previousMetadata = dedupe ? readMetadata(existing?.body) : null;
+  const metadata = nextMetadata(previousMetadata, report.occurrence);
+
+  // Comment strategy: recurrences comment, the body only gets a fresh header
+  const commentOnRecurrence = core.getInput('update-strategy') === 'comment';
+  const header = commentOnRecurrence ? summaryHeader(metadata, occurrenceRun) : '';
+  const body = writeMetadata(header ? refreshHeader(rendered, header) : rendered, metadata);
+  const title = `[${ghCtx.workflow.name}] failed — ${category} — ${fingerprint}`;
+
+  const rateLimitHours = Number(inputs.rateLimitHours) || 0;
+  const runUrl = (id: string) => `${ghCtx.serverUrl}/${ghCtx.repository}/actions/runs/${id}`;
+
+  if (!existing && hash && dedupe) {
+    const threshold = Number(core.getInput('similarity-threshold') || '0.85');
+    const attached = await attachToSimilar(octokit, target, openIssues, hash, report, {
+      threshold,
+      rateLimitHours,
+      runUrl,
     });
+    if (attached) {
+      const score = attached.score.toFixed(2);
+      core.info(`Attached to #${attached.number} by similarity ${score}`);
+      setIssueOutputs(attached, true);
+      core.setOutput('similarity', score);
+      core.setOutput('rate-limited', String(attached.rateLimited));
+      return;
+    }
+  }
 
-    const body = redactText(bodyUnredacted);
-    const title = `[${ghCtx.workflow.name}] failed — ${category} — ${fingerprint}`;
+  // Cap on open issues per workflow; further distinct failures overflow
+  if (!existing) {
+    const max = Number(inputs.maxIssuesPerWorkflow) || 0;
+    const overflow = await foldIntoCap(octokit, target, openIssues, report, max, rateLimitHours);
+    if (overflow.overflowInto) {
+      const { number } = overflow.overflowInto;
+      core.info(`max-issues-per-workflow (${max}) reached; folded into #${number}`);
+      setIssueOutputs(overflow.overflowInto, false);
+      core.setOutput('overflow', 'true');
+      core.setOutput('rate-limited', String(overflow.rateLimited));
+      return;
+    }
+  }
+  core.setOutput('overflow', 'false');
 
-    const result = await manager.createOrUpdate({ existing, title, body, fingerprint, category });
+  // Backoff: repeats inside rate-limit-hours only bump the counter; editing
+  // the body does not notify watchers
+  if (existing && !regressed && dedupe) {
+    if (await backOff(octokit, target, existing, report.occurrence, rateLimitHours, runUrl)) {
+      core.info(`#${existing.number} reported within ${inputs.rateLimitHours}h; counted only`);
+      setIssueOutputs(existing, true);
+      core.setOutput('rate-limited', 'true');
+      return;
+    }
+  }
+  core.setOutput('rate-limited', 'false');
 
-    core.setOutput('issue-number', result.number);
-    core.setOutput('issue-url', result.html_url);
-    core.setOutput('deduped', String(Boolean(existing)));
-  } catch (err: any) {
-    core.setFailed(err?.message ?? String(err));
+  if (existing && commentOnRecurrence && dedupe) {
+    await commentOccurrence(octokit, target, existing, report);
+    const keep = Number(core.getInput('occurrence-comment-limit') || '0');
+    if (keep > 0) {
+      try {
+        await minimizeOldOccurrences(octokit, target, existing.number, keep);
+      } catch (err) {
+        core.warning(`Could not minimize old occurrence comments: ${describeError(err)}`);
+      }
+    }
+    await track(
+      ghCtx.workflow.name,
+      [{ id: existing.id, number: existing.number, title: existing.title, open: true }],
+      openIssues
+    );
+    setIssueOutputs(existing, true);
+    return;
   }
+
+  let result = await manager.createOrUpdate({ existing, title, body, fingerprint, category });
+  let deduped = Boolean(existing);
+
+  // Matrix legs failing together each create an issue before seeing the
+  // others'; re-query, and the lowest number wins over later duplicates
+  if (!existing && dedupe) {
+    try {
+      const siblings = await lookupFailureIssues(
+        octokit,
+        target,
+        inputs.failureLabel,
+        'open',
+        [fingerprint],
+        env.lookupLimit
+      );
+      const winner = raceWinner(siblings, result, fingerprint);
+      if (winner.number !== result.number) {
+        core.info(`#${result.number} duplicates #${winner.number} created concurrently`);
+        result = await yieldToWinner(octokit, target, result, winner);
+        deduped = true;
+      }
+    } catch (err) {
+      core.warning(`Could not check for concurrently created issues: ${describeError(err)}`);
+    }
+  }
+
+  await track(
+    ghCtx.workflow.name,
+    [{ id: result.id, number: result.number, title: result.title, open: true }],
+    openIssues
+  );
+  setIssueOutputs(result, deduped);
 }
 
 run();
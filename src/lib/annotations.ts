@@ -0,0 +1,77 @@
+import * as github from '@actions/github';
+import { listFailedJobs } from './jobs';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface FailureAnnotation {
+  jobName: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  title: string;
+  /** First line of the annotation message. */
+  message: string;
+  /** `path:line`, or the job name for runner-level annotations. */
+  location: string;
+  /** Blob link at the run's sha; empty for runner-level annotations. */
+  url: string;
+  signature: string;
+}
+
+const MAX_ANNOTATIONS = 50;
+
+// The runner files its own messages ("Process completed with exit code 1.") under `.github`
+const RUNNER_PATH = '.github';
+
+/**
+ * Failure-level check-run annotations of the failed jobs in the run. Needs only
+ * `checks: read` (or `actions: read`), so it works where log download does not.
+ */
+export async function fetchFailureAnnotations(
+  octokit: Octokit,
+  ctx: {
+    owner: string;
+    repo: string;
+    repository: string;
+    serverUrl: string;
+    sha: string;
+    workflow: { runId: string };
+  }
+): Promise<FailureAnnotation[]> {
+  const out: FailureAnnotation[] = [];
+  for (const job of await listFailedJobs(octokit, ctx)) {
+    const annotations = await octokit.paginate(octokit.rest.checks.listAnnotations, {
+      owner: ctx.owner,
+      repo: ctx.repo,
+      check_run_id: job.id,
+      per_page: 100,
+    });
+    for (const a of annotations) {
+      if (a.annotation_level !== 'failure') continue;
+      const runnerLevel = !a.path || a.path === RUNNER_PATH;
+      const message = (a.message ?? '').split(/\r?\n/)[0].trim();
+      const title = a.title ?? '';
+      const lines =
+        a.end_line > a.start_line ? `L${a.start_line}-L${a.end_line}` : `L${a.start_line}`;
+      out.push({
+        jobName: job.name,
+        path: a.path,
+        startLine: a.start_line,
+        endLine: a.end_line,
+        title,
+        message,
+        location: runnerLevel ? job.name : `${a.path}:${a.start_line}`,
+        url: runnerLevel
+          ? ''
+          : `${ctx.serverUrl}/${ctx.repository}/blob/${ctx.sha}/${a.path}#${lines}`,
+        signature: `annotation ${runnerLevel ? job.name : a.path}: ${title ? `${title}: ` : ''}${message}`,
+      });
+      if (out.length >= MAX_ANNOTATIONS) return out;
+    }
+  }
+  return out;
+}
+
+export function annotationSignatures(annotations: FailureAnnotation[]): string[] {
+  return Array.from(new Set(annotations.map((a) => a.signature)));
+}
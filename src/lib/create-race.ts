@@ -0,0 +1,61 @@
+import * as github from '@actions/github';
+import { mergeMetadata, readMetadata, writeMetadata } from './issue-metadata';
+import { Issue, IssueTarget } from './issues';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Open issues tracking `fingerprint`, by metadata block or, without one, title. */
+export function fingerprintSiblings(issues: Issue[], fingerprint: string): Issue[] {
+  return issues.filter((issue) => {
+    const meta = readMetadata(issue.body);
+    return meta ? meta.fingerprint === fingerprint : issue.title.includes(fingerprint);
+  });
+}
+
+/**
+ * Which issue keeps tracking `fingerprint` when several runs created one at
+ * the same time: the lowest-numbered, so every racing run agrees.
+ */
+export function raceWinner(issues: Issue[], created: Issue, fingerprint: string): Issue {
+  return [created, ...fingerprintSiblings(issues, fingerprint)].reduce((a, b) =>
+    b.number < a.number ? b : a
+  );
+}
+
+/**
+ * Close `loser` as a duplicate of `winner`, moving its occurrences into the
+ * winner's metadata block. Returns the winner as updated.
+ */
+export async function yieldToWinner(
+  octokit: Octokit,
+  target: IssueTarget,
+  loser: Issue,
+  winner: Issue
+) {
+  const { data: current } = await octokit.rest.issues.get({
+    ...target,
+    issue_number: winner.number,
+  });
+  const into = readMetadata(current.body);
+  const from = readMetadata(loser.body);
+  let updated = current;
+  if (into && from) {
+    ({ data: updated } = await octokit.rest.issues.update({
+      ...target,
+      issue_number: winner.number,
+      body: writeMetadata(current.body ?? '', mergeMetadata(into, from)),
+    }));
+  }
+  await octokit.rest.issues.createComment({
+    ...target,
+    issue_number: loser.number,
+    body: `Duplicate of #${winner.number}: opened concurrently for the same fingerprint, its occurrences were merged there.`,
+  });
+  await octokit.rest.issues.update({
+    ...target,
+    issue_number: loser.number,
+    state: 'closed',
+    state_reason: 'not_planned',
+  });
+  return updated;
+}
@@ -0,0 +1,362 @@
+import { repoPath } from './files';
+
+export interface ParsedError {
+  /** Id of the parser that produced the record. */
+  parser: string;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Tool-specific code or rule (TS2322, no-unused-vars, E0425, ...). */
+  code?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Normalized, location-free line used for fingerprinting. */
+  signature: string;
+}
+
+export interface ErrorParser {
+  id: string;
+  /** Categories for which this parser is tried first. */
+  categories: string[];
+  detect(lines: string[]): boolean;
+  parse(lines: string[]): ParsedError[];
+}
+
+const MAX_ERRORS = 50;
+
+function signatureOf(parser: string, parts: Array<string | undefined>): string {
+  return [parser, ...parts.filter(Boolean)].join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function make(
+  parser: string,
+  fields: Omit<ParsedError, 'parser' | 'signature' | 'severity'> & { severity?: string }
+): ParsedError {
+  const severity = /warn/i.test(fields.severity ?? '') ? 'warning' : 'error';
+  const file = repoPath(fields.file);
+  return {
+    ...fields,
+    parser,
+    severity,
+    file,
+    signature: signatureOf(parser, [fields.code, file ? `${file}:` : undefined, fields.message]),
+  };
+}
+
+function matchAll(lines: string[], patterns: RegExp[]): RegExpExecArray[] {
+  const out: RegExpExecArray[] = [];
+  for (const line of lines) {
+    for (const re of patterns) {
+      const m = re.exec(line);
+      if (m) {
+        out.push(m);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+const num = (s?: string) => (s ? Number(s) : undefined);
+
+const TSC = [
+  /^(.+?\.[cm]?tsx?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/,
+  /^(.+?\.[cm]?tsx?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/,
+];
+
+const tsc: ErrorParser = {
+  id: 'tsc',
+  categories: ['code-quality'],
+  detect: (lines) => lines.some((l) => TSC.some((re) => re.test(l))),
+  parse: (lines) =>
+    matchAll(lines, TSC).map(([, file, line, column, severity, code, message]) =>
+      make('tsc', { file, line: num(line), column: num(column), severity, code, message })
+    ),
+};
+
+const ESLINT_STYLISH = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)\s{2,}(\S+)$/;
+const ESLINT_COMPACT = /^(.+?): line (\d+), col (\d+), (Error|Warning) - (.+?)(?: \((\S+)\))?$/;
+const ESLINT_FILE = /^(?:[A-Za-z]:)?[/\\]?[\w.@/\\-]+\.\w+$/;
+
+const eslint: ErrorParser = {
+  id: 'eslint',
+  categories: ['code-quality'],
+  detect: (lines) => lines.some((l) => ESLINT_STYLISH.test(l) || ESLINT_COMPACT.test(l)),
+  parse: (lines) => {
+    const out: ParsedError[] = [];
+    let file: string | undefined;
+    for (const l of lines) {
+      const compact = ESLINT_COMPACT.exec(l);
+      if (compact) {
+        const [, f, line, column, severity, message, code] = compact;
+        out.push(
+          make('eslint', { file: f, line: num(line), column: num(column), severity, code, message })
+        );
+        continue;
+      }
+      const stylish = ESLINT_STYLISH.exec(l);
+      if (stylish) {
+        const [, line, column, severity, message, code] = stylish;
+        out.push(
+          make('eslint', { file, line: num(line), column: num(column), severity, code, message })
+        );
+      } else if (ESLINT_FILE.test(l.trim()) && !/^\s/.test(l)) {
+        file = l.trim();
+      }
+    }
+    return out;
+  },
+};
+
+const VITEST_FAIL =
+  /^\s*(?:FAIL|×|✗|❯)\s+(\S+\.(?:test|spec)\.[cm]?[jt]sx?)\s+>\s+(.+?)(?:\s+\d+m?s)?$/;
+const JEST_SUITE = /^\s*FAIL\s+(\S+\.[cm]?[jt]sx?)\s*$/;
+const JEST_TEST = /^\s*●\s+(.+)$/;
+
+const jsTests: ErrorParser = {
+  id: 'js-test',
+  categories: ['code-quality', 'test-failure'],
+  detect: (lines) => lines.some((l) => VITEST_FAIL.test(l) || JEST_SUITE.test(l)),
+  parse: (lines) => {
+    const out: ParsedError[] = [];
+    let file: string | undefined;
+    for (const l of lines) {
+      const v = VITEST_FAIL.exec(l);
+      if (v) {
+        out.push(make('js-test', { file: v[1], message: v[2].replace(/\s+>\s+/g, ' > ') }));
+        continue;
+      }
+      const suite = JEST_SUITE.exec(l);
+      if (suite) {
+        file = suite[1];
+        continue;
+      }
+      const test = JEST_TEST.exec(l);
+      if (test && file && !/^Console$/.test(test[1])) {
+        out.push(make('js-test', { file, message: test[1].replace(/\s+›\s+/g, ' > ') }));
+      }
+    }
+    return out;
+  },
+};
+
+const PYTEST_SUMMARY = /^(FAILED|ERROR) (\S+?\.py)(?:::(\S+))?(?: - (.*))?$/;
+const PYTEST_LOCATION = /^(\S+\.py):(\d+): (\w+(?:Error|Exception)\b.*)$/;
+
+const pytest: ErrorParser = {
+  id: 'pytest',
+  categories: ['code-quality', 'test-failure'],
+  detect: (lines) =>
+    lines.some(
+      (l) => PYTEST_SUMMARY.test(l) || /=+ (?:FAILURES|ERRORS|short test summary info) =+/.test(l)
+    ),
+  parse: (lines) => {
+    const locations = new Map<string, number>();
+    for (const l of lines) {
+      const m = PYTEST_LOCATION.exec(l);
+      if (m && !locations.has(m[1])) locations.set(m[1], Number(m[2]));
+    }
+    return lines.flatMap((l) => {
+      const m = PYTEST_SUMMARY.exec(l);
+      if (!m) return [];
+      const [, kind, file, test, message] = m;
+      return [
+        make('pytest', {
+          file,
+          line: locations.get(file),
+          code: kind,
+          message: [test, message].filter(Boolean).join(' - '),
+        }),
+      ];
+    });
+  },
+};
+
+const GO_FAIL = /^\s*--- FAIL: (\S+)/;
+const GO_LOCATION = /^\s+(\S+\.go):(\d+): (.*)$/;
+const GO_BUILD = /^(\.{0,2}\/?\S+\.go):(\d+):(\d+): (.*)$/;
+
+const goTest: ErrorParser = {
+  id: 'go',
+  categories: ['code-quality', 'test-failure'],
+  detect: (lines) => lines.some((l) => GO_FAIL.test(l) || GO_BUILD.test(l)),
+  parse: (lines) => {
+    const out: ParsedError[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const build = GO_BUILD.exec(lines[i]);
+      if (build) {
+        const [, file, line, column, message] = build;
+        out.push(make('go', { file, line: num(line), column: num(column), message }));
+        continue;
+      }
+      const fail = GO_FAIL.exec(lines[i]);
+      if (!fail) continue;
+      // Go prints the assertion location just before or just after the FAIL line
+      const near = [lines[i + 1], lines[i - 1]].map((l) => GO_LOCATION.exec(l ?? '')).find(Boolean);
+      out.push(
+        make('go', {
+          code: fail[1],
+          file: near?.[1],
+          line: num(near?.[2]),
+          message: near?.[3] ?? 'test failed',
+        })
+      );
+    }
+    return out;
+  },
+};
+
+const CARGO_ERROR = /^(error|warning)(?:\[(E\d+)\])?: (.*)$/;
+const CARGO_LOCATION = /^\s*--> (.+?):(\d+):(\d+)$/;
+const CARGO_TEST = /^test (\S+) \.\.\. FAILED$/;
+
+const cargo: ErrorParser = {
+  id: 'cargo',
+  categories: ['code-quality', 'test-failure'],
+  detect: (lines) =>
+    lines.some(
+      (l) => /^error\[E\d+\]/.test(l) || CARGO_TEST.test(l) || /^\s*--> \S+\.rs:\d+/.test(l)
+    ),
+  parse: (lines) => {
+    const out: ParsedError[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const test = CARGO_TEST.exec(lines[i]);
+      if (test) {
+        out.push(make('cargo', { code: 'test', message: test[1] }));
+        continue;
+      }
+      const err = CARGO_ERROR.exec(lines[i]);
+      if (!err || /^(could not compile|aborting due to)/.test(err[3])) continue;
+      const loc = CARGO_LOCATION.exec(lines[i + 1] ?? '');
+      out.push(
+        make('cargo', {
+          severity: err[1],
+          code: err[2],
+          message: err[3],
+          file: loc?.[1],
+          line: num(loc?.[2]),
+          column: num(loc?.[3]),
+        })
+      );
+    }
+    return out;
+  },
+};
+
+const JVM = [
+  // Maven compiler: [ERROR] /src/Foo.java:[10,5] cannot find symbol
+  /^\[(ERROR|WARNING)\] (\S+\.(?:java|kt|scala|groovy)):\[(\d+),(\d+)\] (.*)$/,
+  // Kotlin / Gradle: e: file:///src/Foo.kt: (10, 5): Unresolved reference
+  /^([ew]): (\S+\.(?:kt|kts|java)):? \(?(\d+), ?(\d+)\)?:? (.*)$/,
+  // javac: src/Foo.java:10: error: cannot find symbol
+  /^(\S+\.java):(\d+): (error|warning): (.*)$/,
+];
+const GRADLE_TEST = /^(\S+) > (.+) FAILED$/;
+const MAVEN_TEST = /^\[ERROR\] (?:Tests run:.*<<< FAILURE!|\s*(\S+)\.(\w+):(\d+) (.*))$/;
+
+const jvm: ErrorParser = {
+  id: 'jvm',
+  categories: ['code-quality', 'test-failure'],
+  detect: (lines) =>
+    lines.some(
+      (l) =>
+        JVM.some((re) => re.test(l)) ||
+        GRADLE_TEST.test(l) ||
+        /^\[ERROR\] (Failed to execute goal|Tests run:)/.test(l)
+    ),
+  parse: (lines) =>
+    lines.flatMap((l) => {
+      let m = JVM[0].exec(l);
+      if (m)
+        return [
+          make('jvm', {
+            severity: m[1],
+            file: m[2],
+            line: num(m[3]),
+            column: num(m[4]),
+            message: m[5],
+          }),
+        ];
+      m = JVM[1].exec(l);
+      if (m)
+        return [
+          make('jvm', {
+            severity: m[1] === 'w' ? 'warning' : 'error',
+            file: m[2],
+            line: num(m[3]),
+            column: num(m[4]),
+            message: m[5],
+          }),
+        ];
+      m = JVM[2].exec(l);
+      if (m) return [make('jvm', { file: m[1], line: num(m[2]), severity: m[3], message: m[4] })];
+      m = GRADLE_TEST.exec(l);
+      if (m) return [make('jvm', { code: 'test', message: `${m[1]} > ${m[2]}` })];
+      m = MAVEN_TEST.exec(l);
+      if (m && m[1]) return [make('jvm', { code: 'test', message: `${m[1]}.${m[2]} ${m[4]}` })];
+      m = /^\[ERROR\] Failed to execute goal (\S+)/.exec(l);
+      if (m) return [make('jvm', { code: 'goal', message: m[1] })];
+      return [];
+    }),
+};
+
+const NPM = /^npm (?:ERR!|error) (.*)$/;
+
+const npm: ErrorParser = {
+  id: 'npm',
+  categories: ['code-quality', 'deployment', 'infrastructure-deployment', 'general'],
+  detect: (lines) => lines.some((l) => NPM.test(l)),
+  parse: (lines) => {
+    const body = lines.map((l) => NPM.exec(l)?.[1]?.trim()).filter((l): l is string => Boolean(l));
+    const code = body.map((l) => /^code (\S+)/.exec(l)?.[1]).find(Boolean);
+    // npm repeats context (log file path, stack) under ERR!; keep the first real message
+    const message = body.find(
+      (l) => !/^(code|errno|syscall|path|A complete log|\s*$|command|signal|Lifecycle)/i.test(l)
+    );
+    if (!code && !message) return [];
+    return [make('npm', { code, message: message ?? '' })];
+  },
+};
+
+export const PARSERS: ErrorParser[] = [tsc, eslint, jsTests, pytest, goTest, cargo, jvm, npm];
+
+/**
+ * Pick parsers for a log: parsers registered for the category that recognise the
+ * content, falling back to any parser that recognises the content.
+ */
+export function selectParsers(category: string, lines: string[]): ErrorParser[] {
+  const detected = PARSERS.filter((p) => p.detect(lines));
+  const preferred = detected.filter((p) => p.categories.includes(category));
+  return preferred.length ? preferred : detected;
+}
+
+/**
+ * Run the selected built-in parsers over a log. `custom` parsers (e.g. the
+ * repository's problem matchers) run first whenever they recognise the log.
+ */
+export function parseErrors(
+  lines: string[],
+  category: string,
+  custom: ErrorParser[] = []
+): ParsedError[] {
+  const seen = new Set<string>();
+  const out: ParsedError[] = [];
+  const parsers = [...custom.filter((p) => p.detect(lines)), ...selectParsers(category, lines)];
+  for (const parser of parsers) {
+    for (const err of parser.parse(lines)) {
+      const key = `${err.signature}|${err.line ?? ''}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      out.push(err);
+    }
+  }
+  return out.slice(0, MAX_ERRORS);
+}
+
+/** Errors first, unique signatures only; warnings are used only when no error was parsed. */
+export function toSignatures(errors: ParsedError[]): string[] {
+  const failing = errors.filter((e) => e.severity === 'error');
+  return Array.from(new Set((failing.length ? failing : errors).map((e) => e.signature)));
+}
+
+export { make as makeParsedError };
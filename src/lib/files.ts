@@ -0,0 +1,29 @@
+import * as glob from '@actions/glob';
+
+// Runner checkouts live under <work>/<repo>/<repo>; keep paths repo-relative
+const RUNNER_WORKSPACE = /^(?:[A-Za-z]:)?[/\\].*?[/\\]_?work[/\\][^/\\]+[/\\][^/\\]+[/\\]/;
+
+/**
+ * Resolve newline- or comma-separated globs (relative to the workspace) to a
+ * sorted list of files.
+ */
+export async function findFiles(patterns: string, limit = 200): Promise<string[]> {
+  const globs = patterns
+    .split(/[\n,]/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .join('\n');
+  if (!globs) return [];
+
+  const globber = await glob.create(globs, { matchDirectories: false });
+  return (await globber.glob()).sort().slice(0, limit);
+}
+
+/** Strip `file://`, the workspace and the runner checkout prefix from a path. */
+export function repoPath(file?: string): string | undefined {
+  if (!file) return undefined;
+  let out = file.replace(/^file:\/\//, '');
+  const workspace = process.env.GITHUB_WORKSPACE;
+  if (workspace && out.startsWith(`${workspace}/`)) out = out.slice(workspace.length + 1);
+  return out.replace(RUNNER_WORKSPACE, '').replace(/^\.\//, '');
+}
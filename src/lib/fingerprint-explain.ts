@@ -0,0 +1,85 @@
+import { FingerprintStep } from './fingerprint-rules';
+import {
+  FINGERPRINT_VERSION,
+  FingerprintInput,
+  VersionedFingerprints,
+} from './fingerprint-versions';
+
+export interface FingerprintExplanation {
+  fingerprint: string;
+  version: number;
+  /** Fingerprints of earlier algorithm versions that are matched too. */
+  previous: string[];
+  inputs: {
+    repository: string;
+    workflow: string;
+    /** Job name as hashed, including any fingerprint-scope values. */
+    job: string;
+    category: string;
+    scope: string[];
+    errorSignatures: string[];
+  };
+  /** Rule and built-in normalization steps that changed the error lines. */
+  steps: FingerprintStep[];
+  /** The text the current algorithm hashed, one item per line. */
+  canonical: string;
+  /** Hash before the version prefix. */
+  hash: string;
+}
+
+/**
+ * Why a failure got its fingerprint: inputs, each rule or normalization step
+ * that changed the error lines, the canonical text and the resulting hash,
+ * all taken from the current algorithm's trace. Error lines go through
+ * `redact` like they do in the issue body.
+ */
+export function explainFingerprint(args: {
+  input: FingerprintInput;
+  scope: string[];
+  fingerprints: VersionedFingerprints;
+  redact: (text: string) => string;
+}): FingerprintExplanation {
+  const { input, fingerprints, redact } = args;
+  const { trace } = fingerprints;
+  return {
+    fingerprint: fingerprints.current,
+    version: FINGERPRINT_VERSION,
+    previous: fingerprints.previous,
+    inputs: {
+      repository: input.repository,
+      workflow: input.workflow,
+      job: input.job,
+      category: input.category,
+      scope: args.scope,
+      errorSignatures: input.errorSignatures.map(redact),
+    },
+    steps: trace.steps.map((s) => ({ step: s.step, lines: s.lines.map(redact) })),
+    canonical: trace.canonical.split('\n').map(redact).join('\n'),
+    hash: trace.hash,
+  };
+}
+
+/** Collapsible job-summary section. */
+export function renderExplanation(e: FingerprintExplanation): string {
+  const fence = (lines: string[]) => ['```text', ...(lines.length ? lines : ['(none)']), '```'];
+  const out = [
+    '<details>',
+    `<summary>Fingerprint <code>${e.fingerprint}</code></summary>`,
+    '',
+    `| Input | Value |`,
+    `| --- | --- |`,
+    `| Repository | \`${e.inputs.repository}\` |`,
+    `| Workflow | \`${e.inputs.workflow}\` |`,
+    `| Job | \`${e.inputs.job}\` |`,
+    `| Category | \`${e.inputs.category}\` |`,
+    `| Scope | ${e.inputs.scope.length ? e.inputs.scope.map((s) => `\`${s}\``).join(', ') : '(default)'} |`,
+    `| Algorithm | v${e.version}${e.previous.length ? `; also matches ${e.previous.map((p) => `\`${p}\``).join(', ')}` : ''} |`,
+    '',
+    '**Error lines**',
+    ...fence(e.inputs.errorSignatures),
+  ];
+  for (const s of e.steps) out.push('', `**${s.step}**`, ...fence(s.lines));
+  out.push('', '**Canonical input**', ...fence(e.canonical.split('\n')));
+  out.push('', `Hash \`${e.hash}\` → fingerprint \`${e.fingerprint}\``, '', '</details>', '');
+  return out.join('\n');
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+const RuleSchema = z.object({
+  pattern: z.string().min(1),
+  replacement: z.string().default(''),
+  /** Extra RegExp flags; `g` is always added. */
+  flags: z
+    .string()
+    .regex(/^[imsu]*$/)
+    .optional(),
+});
+
+const FingerprintConfigSchema = z.object({
+  normalize: z.array(RuleSchema).default([]),
+  ignore: z.array(z.string().min(1)).default([]),
+});
+
+export interface FingerprintRules {
+  normalize: Array<{ pattern: RegExp; replacement: string }>;
+  ignore: RegExp[];
+}
+
+export const NO_FINGERPRINT_RULES: FingerprintRules = { normalize: [], ignore: [] };
+
+/** Validate and compile the `fingerprint` section of the repo config; throws on bad regexps. */
+export function parseFingerprintRules(section: unknown): FingerprintRules {
+  if (section === undefined || section === null) return NO_FINGERPRINT_RULES;
+  const cfg = FingerprintConfigSchema.parse(section);
+  return {
+    normalize: cfg.normalize.map((r) => ({
+      pattern: new RegExp(r.pattern, `g${r.flags ?? ''}`),
+      replacement: r.replacement,
+    })),
+    ignore: cfg.ignore.map((p) => new RegExp(p)),
+  };
+}
+
+/** Read the rules from the repo config file; a missing file means no rules. */
+export function loadFingerprintRules(configPath: string): FingerprintRules {
+  if (!configPath || !fs.existsSync(configPath)) return NO_FINGERPRINT_RULES;
+  const doc = parseYaml(fs.readFileSync(configPath, 'utf8')) ?? {};
+  return parseFingerprintRules(doc.fingerprint);
+}
+
+export interface FingerprintStep {
+  step: string;
+  /** Error lines after the step. */
+  lines: string[];
+}
+
+/**
+ * Each ignore pattern, then each normalize rule, as a step; only the ones
+ * that changed the error lines are returned.
+ */
+export function traceFingerprintRules(
+  signatures: string[],
+  rules: FingerprintRules
+): FingerprintStep[] {
+  const steps: FingerprintStep[] = [];
+  let lines = signatures;
+  for (const re of rules.ignore) {
+    const kept = lines.filter((l) => !re.test(l));
+    if (kept.length !== lines.length) {
+      steps.push({
+        step: `ignore /${re.source}/ dropped ${lines.length - kept.length}`,
+        lines: kept,
+      });
+    }
+    lines = kept;
+  }
+  for (const r of rules.normalize) {
+    const next = lines.map((l) => l.replace(r.pattern, r.replacement));
+    if (next.some((l, i) => l !== lines[i])) {
+      steps.push({ step: `normalize /${r.pattern.source}/ → "${r.replacement}"`, lines: next });
+    }
+    lines = next;
+  }
+  return steps;
+}
+
+/**
+ * Drop signature lines matching an ignore pattern, then run every normalize
+ * rule in order. The fingerprint algorithm applies its own built-in
+ * normalization afterwards.
+ */
+export function applyFingerprintRules(signatures: string[], rules: FingerprintRules): string[] {
+  const steps = traceFingerprintRules(signatures, rules);
+  return steps.length ? steps[steps.length - 1].lines : signatures;
+}
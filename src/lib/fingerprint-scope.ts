@@ -0,0 +1,74 @@
+const DIMENSIONS = ['branch', 'base-branch', 'event', 'runner-os', 'runner-arch', 'matrix'];
+
+export interface ScopeContext {
+  branch?: string;
+  eventName?: string;
+  runner?: { os?: string; arch?: string };
+  workflow: { job: string };
+}
+
+/**
+ * Parse the comma-separated `fingerprint-scope` input. `matrix` takes every
+ * matrix value, `matrix.<key>` a single one. Throws on unknown dimensions.
+ */
+export function parseFingerprintScope(raw: string): string[] {
+  const scope = raw
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  for (const dim of scope) {
+    if (!DIMENSIONS.includes(dim) && !/^matrix\.[\w-]+$/.test(dim)) {
+      throw new Error(
+        `Unknown fingerprint-scope dimension "${dim}" (expected ${DIMENSIONS.join(', ')} or matrix.<key>)`
+      );
+    }
+  }
+  return scope;
+}
+
+/** Parse the `matrix` input (`${{ toJSON(matrix) }}`) into string values. */
+export function parseMatrix(raw: string): Record<string, string> {
+  if (!raw.trim()) return {};
+  const parsed = JSON.parse(raw);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('matrix input must be a JSON object');
+  }
+  return Object.fromEntries(
+    Object.entries(parsed).map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)])
+  );
+}
+
+/** `dimension=value` pairs for the chosen scope, in a stable order. */
+export function scopeValues(
+  scope: string[],
+  ctx: ScopeContext,
+  matrix: Record<string, string>,
+  env: NodeJS.ProcessEnv = process.env
+): string[] {
+  const out: string[] = [];
+  for (const dim of scope) {
+    if (dim === 'branch') out.push(`branch=${ctx.branch ?? ''}`);
+    else if (dim === 'base-branch') out.push(`base-branch=${env.GITHUB_BASE_REF ?? ''}`);
+    else if (dim === 'event') out.push(`event=${ctx.eventName ?? ''}`);
+    else if (dim === 'runner-os') out.push(`runner-os=${ctx.runner?.os ?? ''}`);
+    else if (dim === 'runner-arch') out.push(`runner-arch=${ctx.runner?.arch ?? ''}`);
+    else if (dim === 'matrix') {
+      for (const key of Object.keys(matrix)) out.push(`matrix.${key}=${matrix[key]}`);
+    } else out.push(`${dim}=${matrix[dim.slice('matrix.'.length)] ?? ''}`);
+  }
+  return Array.from(new Set(out)).sort();
+}
+
+/**
+ * Context to hash for a scope. The values ride on the job name, which the
+ * fingerprint algorithms hash verbatim; error lines would lose the digits in
+ * branch names and versions. An empty scope returns `ctx` unchanged, so
+ * fingerprints stay what they were.
+ */
+export function scopedContext<T extends ScopeContext>(ctx: T, values: string[]): T {
+  if (!values.length) return ctx;
+  return {
+    ...ctx,
+    workflow: { ...ctx.workflow, job: `${ctx.workflow.job} {${values.join(',')}}` },
+  };
+}
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import * as github from '@actions/github';
+import { computeFingerprint } from './fingerprint';
+import { FingerprintRules, FingerprintStep, traceFingerprintRules } from './fingerprint-rules';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Everything a fingerprint is computed from. */
+export interface FingerprintInput {
+  repository: string;
+  workflow: string;
+  /** Job name, including any fingerprint-scope values. */
+  job: string;
+  category: string;
+  errorSignatures: string[];
+}
+
+/** How one algorithm got from the input to its hash. */
+export interface FingerprintTrace {
+  /** Rule and normalization steps that changed the error lines. */
+  steps: FingerprintStep[];
+  /** Exactly the text that was hashed; empty for v1, hashed inside `computeFingerprint()`. */
+  canonical: string;
+  /** Hash before the version prefix. */
+  hash: string;
+}
+
+export interface FingerprintAlgorithm {
+  version: number;
+  compute(input: FingerprintInput, rules: FingerprintRules): FingerprintTrace;
+}
+
+interface NormalizeStep {
+  step: string;
+  pattern: RegExp;
+  replacement: string;
+}
+
+// Frozen with v2. Never edit: an algorithm change gets new steps and a new
+// version, so issues opened under the old one are still matched.
+const V2_NORMALIZE: NormalizeStep[] = [
+  { step: 'strip SHAs', pattern: /\b[0-9a-f]{7,40}\b/gi, replacement: '<sha>' },
+  { step: 'strip numbers', pattern: /\d+/g, replacement: '<n>' },
+];
+
+function normalizeSteps(lines: string[], normalize: NormalizeStep[]): FingerprintStep[] {
+  const steps: FingerprintStep[] = [];
+  for (const n of normalize) {
+    const next = lines.map((l) => l.replace(n.pattern, n.replacement));
+    if (next.some((l, i) => l !== lines[i])) steps.push({ step: n.step, lines: next });
+    lines = next;
+  }
+  return steps;
+}
+
+function v2Trace(input: FingerprintInput, steps: FingerprintStep[]): FingerprintTrace {
+  let lines = steps.length ? steps[steps.length - 1].lines : input.errorSignatures;
+  const builtIn = normalizeSteps(lines, V2_NORMALIZE);
+  if (builtIn.length) lines = builtIn[builtIn.length - 1].lines;
+  const canonical = [input.repository, input.workflow, input.job, input.category, ...lines].join(
+    '\n'
+  );
+  const hash = createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+  return { steps: [...steps, ...builtIn], canonical, hash };
+}
+
+/**
+ * Every algorithm the action has shipped, newest first. Each owns its whole
+ * pipeline; bump the version rather than changing one, and keep the old
+ * entry so issues opened by earlier releases are still found.
+ */
+export const ALGORITHMS: FingerprintAlgorithm[] = [
+  // v2: repo normalize/ignore rules, then its own SHA and number stripping
+  {
+    version: 2,
+    compute: (input, rules) => v2Trace(input, traceFingerprintRules(input.errorSignatures, rules)),
+  },
+  // v1: unprefixed, the released computeFingerprint() of the raw error lines.
+  // Its output is pinned in tests; fingerprint.ts must not change it.
+  {
+    version: 1,
+    compute: (input) => ({
+      steps: [],
+      canonical: '',
+      hash: computeFingerprint({
+        ctx: { repository: input.repository, workflow: { name: input.workflow, job: input.job } },
+        category: input.category,
+        errorSignatures: input.errorSignatures,
+      }),
+    }),
+  },
+];
+
+export const FINGERPRINT_VERSION = ALGORITHMS[0].version;
+
+export function withVersion(version: number, hash: string): string {
+  return version === 1 ? hash : `v${version}-${hash}`;
+}
+
+/** Algorithm version of a fingerprint; unprefixed ones are v1. */
+export function fingerprintVersion(fingerprint: string): number {
+  const m = /^v(\d+)-/.exec(fingerprint);
+  return m ? Number(m[1]) : 1;
+}
+
+export interface VersionedFingerprints {
+  /** Fingerprint under the current algorithm. */
+  current: string;
+  /** What earlier algorithms produce for the same failure, newest first. */
+  previous: string[];
+  /** How the current fingerprint was computed. */
+  trace: FingerprintTrace;
+}
+
+export function computeFingerprints(
+  input: FingerprintInput,
+  rules: FingerprintRules,
+  algorithms: FingerprintAlgorithm[] = ALGORITHMS
+): VersionedFingerprints {
+  const traces = algorithms.map((a) => ({ version: a.version, trace: a.compute(input, rules) }));
+  const [current, ...previous] = traces.map((t) => withVersion(t.version, t.trace.hash));
+  return {
+    current,
+    previous: Array.from(new Set(previous)).filter((fp) => fp !== current),
+    trace: traces[0].trace,
+  };
+}
+
+/**
+ * Rewrite an issue found under an older fingerprint to the current one, in the
+ * title and anywhere in the body, so the next lookup matches directly.
+ * Returns the updated issue.
+ */
+export async function migrateFingerprint(
+  octokit: Octokit,
+  target: { owner: string; repo: string },
+  issue: { number: number; title: string; body?: string | null },
+  from: string,
+  to: string
+) {
+  const swap = (text: string) => text.split(from).join(to);
+  const { data } = await octokit.rest.issues.update({
+    ...target,
+    issue_number: issue.number,
+    title: swap(issue.title),
+    ...(issue.body ? { body: swap(issue.body) } : {}),
+  });
+  return data;
+}
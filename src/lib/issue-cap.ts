@@ -0,0 +1,154 @@
+import * as github from '@actions/github';
+import {
+  Occurrence,
+  OverflowRecord,
+  readMetadata,
+  sourceRepository,
+  writeMetadata,
+} from './issue-metadata';
+import { Issue, IssueTarget } from './issues';
+import { FailureReport, OccurrenceRun } from './occurrences';
+import { withinBackoff } from './rate-limit';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface WorkflowCap {
+  /** Open failure issues of the workflow. */
+  open: number;
+  /** Most recent of them when the cap is reached, null otherwise. */
+  overflowInto: Issue | null;
+}
+
+export interface Overflow extends WorkflowCap {
+  /** A repeat inside rate-limit-hours, only counted in the metadata block. */
+  rateLimited: boolean;
+}
+
+/**
+ * Open issues of a repository's workflow, by metadata block or by the
+ * `[workflow] failed` title.
+ */
+export function workflowIssues(issues: Issue[], repository: string, workflow: string): Issue[] {
+  return issues.filter((issue) => {
+    const meta = readMetadata(issue.body);
+    if (sourceRepository(issue, meta) !== repository) return false;
+    return meta ? meta.workflow === workflow : issue.title.startsWith(`[${workflow}] failed`);
+  });
+}
+
+/**
+ * Whether a new issue for `workflow` of `repository` would exceed `max` of
+ * the open failure `issues`. A `max` of 0 disables the cap.
+ */
+export function checkWorkflowCap(
+  issues: Issue[],
+  repository: string,
+  workflow: string,
+  max: number
+): WorkflowCap {
+  if (!(max > 0)) return { open: 0, overflowInto: null };
+  const open = workflowIssues(issues, repository, workflow);
+  if (open.length < max) return { open: open.length, overflowInto: null };
+  const latest = open.reduce((a, b) => (b.number > a.number ? b : a));
+  return { open: open.length, overflowInto: latest };
+}
+
+export function overflowComment(
+  fingerprint: string,
+  category: string,
+  run: OccurrenceRun,
+  cap: { open: number; max: number },
+  details: string
+): string {
+  return [
+    `Another distinct failure (fingerprint \`${fingerprint}\`, category \`${category}\`) in [run #${run.runNumber}](${run.runUrl}) on \`${run.branch}\`.`,
+    '',
+    `No new issue was opened: this workflow already has ${cap.open} open failure issue(s) (max-issues-per-workflow: ${cap.max}).`,
+    '',
+    '<details><summary>Failure details</summary>',
+    '',
+    details,
+    '',
+    '</details>',
+  ].join('\n');
+}
+
+/** Comment for a fingerprint that already overflowed into the issue. */
+export function overflowRepeatComment(record: OverflowRecord, run: OccurrenceRun): string {
+  return `Overflowed failure (fingerprint \`${record.fingerprint}\`) failed again in [run #${run.runNumber}](${run.runUrl}) on \`${run.branch}\`: ${record.occurrences} occurrence(s) since ${record.firstSeen}.`;
+}
+
+/** `records` with `occ` counted; `notified` when a comment was posted for it. */
+export function recordOverflow(
+  records: OverflowRecord[],
+  occ: Occurrence,
+  notified: boolean
+): OverflowRecord[] {
+  const previous = records.find((r) => r.fingerprint === occ.fingerprint);
+  const next: OverflowRecord = {
+    fingerprint: occ.fingerprint,
+    category: occ.category,
+    firstSeen: previous?.firstSeen ?? occ.timestamp,
+    lastSeen: occ.timestamp,
+    occurrences: (previous?.occurrences ?? 0) + 1,
+    notifiedAt: notified || !previous ? occ.timestamp : previous.notifiedAt,
+  };
+  return [...records.filter((r) => r !== previous), next];
+}
+
+const overflowRecord = (issue: Issue, fingerprint: string) =>
+  readMetadata(issue.body)?.overflow?.find((r) => r.fingerprint === fingerprint);
+
+/**
+ * `max-issues-per-workflow`: once the workflow of `report` has `max` open
+ * issues, fold it into the most recent of them instead of opening another.
+ * The fingerprint is recorded in that issue's metadata block, so a repeat
+ * goes to the same issue and only gets a one-line comment, or none inside
+ * `rateLimitHours` of the last one.
+ */
+export async function foldIntoCap(
+  octokit: Octokit,
+  target: IssueTarget,
+  issues: Issue[],
+  report: FailureReport,
+  max: number,
+  rateLimitHours: number
+): Promise<Overflow> {
+  const { occurrence } = report;
+  const cap = checkWorkflowCap(issues, occurrence.repository, occurrence.workflow, max);
+  if (!cap.overflowInto) return { ...cap, rateLimited: false };
+
+  const into =
+    workflowIssues(issues, occurrence.repository, occurrence.workflow).find((issue) =>
+      overflowRecord(issue, occurrence.fingerprint)
+    ) ?? cap.overflowInto;
+  const meta = readMetadata(into.body);
+  const previous = overflowRecord(into, occurrence.fingerprint);
+  const rateLimited =
+    !!previous && withinBackoff(previous.notifiedAt, occurrence.timestamp, rateLimitHours);
+  const records = recordOverflow(meta?.overflow ?? [], occurrence, !rateLimited);
+  if (!rateLimited) {
+    await octokit.rest.issues.createComment({
+      ...target,
+      issue_number: into.number,
+      body: previous
+        ? overflowRepeatComment(records[records.length - 1], report.run)
+        : overflowComment(
+            occurrence.fingerprint,
+            occurrence.category,
+            report.run,
+            { open: cap.open, max },
+            report.rendered
+          ),
+    });
+  }
+  // Issues opened before metadata blocks have nowhere to record it
+  if (meta) {
+    await octokit.rest.issues.update({
+      ...target,
+      issue_number: into.number,
+      body: writeMetadata(into.body ?? '', { ...meta, overflow: records }),
+    });
+  }
+  return { open: cap.open, overflowInto: into, rateLimited };
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { Issue, issueRepository } from './issues';
+
+const OverflowSchema = z.object({
+  fingerprint: z.string(),
+  category: z.string(),
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+  occurrences: z.number().int().positive(),
+  /** Last comment posted for this fingerprint. */
+  notifiedAt: z.string(),
+});
+
+const MetadataSchema = z.object({
+  fingerprint: z.string(),
+  fingerprintVersion: z.number().int(),
+  category: z.string(),
+  /** `owner/repo` of the workflow run; unset in blocks written before it was recorded. */
+  repository: z.string().optional(),
+  workflow: z.string(),
+  /** Job id, with the fingerprint scope if any (`test {os=linux}`). */
+  job: z.string(),
+  /** Branch of the run that opened or last updated the issue. */
+  branch: z.string().optional(),
+  /** Commit of the latest occurrence, the base of the resolution compare link. */
+  sha: z.string().optional(),
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+  occurrences: z.number().int().nonnegative(),
+  runIds: z.array(z.string()),
+  /** Error lines of the latest occurrence, to show what changed next time. */
+  errorSignatures: z.array(z.string()).optional(),
+  /** Last time watchers were notified (body re-rendered or comment posted). */
+  notifiedAt: z.string().optional(),
+  /** Occurrences since `notifiedAt` that were only counted. */
+  suppressed: z.number().int().nonnegative().optional(),
+  /** Consecutive green runs since the last failure; reset by each occurrence. */
+  passes: z.number().int().nonnegative().optional(),
+  /** Run that last counted towards `passes`; each run counts once. */
+  lastPassRunId: z.string().optional(),
+  /** Distinct failures folded into this issue by max-issues-per-workflow. */
+  overflow: z.array(OverflowSchema).optional(),
+});
+
+export type IssueMetadata = z.infer<typeof MetadataSchema>;
+export type OverflowRecord = z.infer<typeof OverflowSchema>;
+
+export interface Occurrence {
+  fingerprint: string;
+  fingerprintVersion: number;
+  category: string;
+  repository: string;
+  workflow: string;
+  job: string;
+  branch?: string;
+  sha?: string;
+  runId: string;
+  timestamp: string;
+  errorSignatures?: string[];
+}
+
+// Most recent run ids and error lines kept in the block
+const MAX_RUN_IDS = 50;
+const MAX_SIGNATURES = 20;
+
+const BLOCK = /\n*<!--\s*wic:metadata\s*(\{[\s\S]*?\})\s*-->\n*/;
+
+/** The metadata block of an issue body; null when absent or unreadable. */
+export function readMetadata(body?: string | null): IssueMetadata | null {
+  const m = BLOCK.exec(body ?? '');
+  if (!m) return null;
+  try {
+    return MetadataSchema.parse(JSON.parse(m[1]));
+  } catch {
+    return null;
+  }
+}
+
+/** Replace (or append) the metadata block at the end of the body. */
+export function writeMetadata(body: string, meta: IssueMetadata): string {
+  // `>` is escaped so titles containing `-->` cannot close the comment early
+  const json = JSON.stringify(meta).replace(/>/g, '\\u003e');
+  return `${body.replace(BLOCK, '\n\n').trimEnd()}\n\n<!-- wic:metadata ${json} -->\n`;
+}
+
+/**
+ * Repository whose runs an issue reports: the one in its metadata block, else
+ * (no block, or one written before it was recorded) the one it lives in.
+ */
+export function sourceRepository(issue: Issue, meta = readMetadata(issue.body)): string {
+  return meta?.repository ?? issueRepository(issue);
+}
+
+/**
+ * Metadata after one more reported occurrence; `previous` is null for a new
+ * issue.
+ */
+export function nextMetadata(previous: IssueMetadata | null, occ: Occurrence): IssueMetadata {
+  const runIds = (previous?.runIds ?? []).filter((id) => id !== occ.runId);
+  if (occ.runId) runIds.push(occ.runId);
+  return {
+    fingerprint: occ.fingerprint,
+    fingerprintVersion: occ.fingerprintVersion,
+    category: occ.category,
+    repository: occ.repository,
+    workflow: occ.workflow,
+    job: occ.job,
+    ...(occ.branch ? { branch: occ.branch } : {}),
+    ...(occ.sha ? { sha: occ.sha } : {}),
+    firstSeen: previous?.firstSeen ?? occ.timestamp,
+    lastSeen: occ.timestamp,
+    occurrences: (previous?.occurrences ?? 0) + 1,
+    runIds: runIds.slice(-MAX_RUN_IDS),
+    errorSignatures: (occ.errorSignatures ?? []).slice(0, MAX_SIGNATURES),
+    notifiedAt: occ.timestamp,
+    suppressed: 0,
+    ...(previous?.overflow ? { overflow: previous.overflow } : {}),
+  };
+}
+
+/**
+ * `into` with the occurrences recorded in `from` folded in, for two issues
+ * that turned out to track the same failure.
+ */
+export function mergeMetadata(into: IssueMetadata, from: IssueMetadata): IssueMetadata {
+  const runIds = Array.from(new Set([...into.runIds, ...from.runIds])).sort(
+    (a, b) => Number(a) - Number(b)
+  );
+  return {
+    ...into,
+    firstSeen: from.firstSeen < into.firstSeen ? from.firstSeen : into.firstSeen,
+    lastSeen: from.lastSeen > into.lastSeen ? from.lastSeen : into.lastSeen,
+    occurrences: into.occurrences + from.occurrences,
+    runIds: runIds.slice(-MAX_RUN_IDS),
+  };
+}
+
+export interface MetadataMatch {
+  issue: Issue;
+  metadata: IssueMetadata;
+}
+
+/**
+ * First of `issues` whose metadata block carries one of `fingerprints`
+ * (current first, then older versions). Titles are not consulted, so edited
+ * titles keep deduping.
+ */
+export function findIssueByMetadata(issues: Issue[], fingerprints: string[]): MetadataMatch | null {
+  const tagged = issues.flatMap((issue) => {
+    const metadata = readMetadata(issue.body);
+    return metadata ? [{ issue, metadata }] : [];
+  });
+  for (const fp of fingerprints) {
+    const match = tagged.find((t) => t.metadata.fingerprint === fp);
+    if (match) return match;
+  }
+  return null;
+}
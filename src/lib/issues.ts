@@ -0,0 +1,110 @@
+import * as github from '@actions/github';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+type ListedIssue = Awaited<ReturnType<Octokit['rest']['issues']['listForRepo']>>['data'][number];
+
+/** Fields shared by listed and searched issues. */
+export type Issue = Pick<
+  ListedIssue,
+  'id' | 'number' | 'title' | 'body' | 'html_url' | 'state' | 'closed_at' | 'updated_at'
+>;
+
+export interface IssueTarget {
+  owner: string;
+  repo: string;
+}
+
+export type IssueState = 'open' | 'closed';
+
+export const DEFAULT_LOOKUP_LIMIT = 1000;
+
+/** `owner/repo` an issue lives in, from its URL; empty when unknown. */
+export function issueRepository(issue: Pick<Issue, 'html_url'>): string {
+  return /^https?:\/\/[^/]+\/([^/]+\/[^/]+)\/issues\//.exec(issue.html_url ?? '')?.[1] ?? '';
+}
+
+/**
+ * Failure-labelled issues (not pull requests), most recently updated first,
+ * across pages until `limit` is reached.
+ */
+export async function listFailureIssues(
+  octokit: Octokit,
+  target: IssueTarget,
+  label: string,
+  state: IssueState = 'open',
+  limit = DEFAULT_LOOKUP_LIMIT
+): Promise<Issue[]> {
+  let seen = 0;
+  const issues = await octokit.paginate(
+    octokit.rest.issues.listForRepo,
+    {
+      owner: target.owner,
+      repo: target.repo,
+      labels: label,
+      state,
+      sort: 'updated',
+      direction: 'desc',
+      per_page: 100,
+    },
+    (response, done) => {
+      seen += response.data.length;
+      if (seen >= limit) done();
+      return response.data;
+    }
+  );
+  return issues.filter((issue) => !issue.pull_request).slice(0, limit);
+}
+
+/**
+ * Failure-labelled issues mentioning `term` in title or body, via the search
+ * API. Used when the listing hit its limit and may have missed the issue.
+ */
+export async function searchFailureIssues(
+  octokit: Octokit,
+  target: IssueTarget,
+  label: string,
+  state: IssueState,
+  term: string
+): Promise<Issue[]> {
+  const q = [
+    `repo:${target.owner}/${target.repo}`,
+    'is:issue',
+    `state:${state}`,
+    `label:"${label}"`,
+    `"${term}"`,
+    'in:title,body',
+  ].join(' ');
+  const { data } = await octokit.rest.search.issuesAndPullRequests({ q, per_page: 20 });
+  return data.items.filter((issue) => !issue.pull_request);
+}
+
+/**
+ * Failure issues to match fingerprints against: the bounded listing, plus
+ * search hits for each of `terms` when the listing was cut off at `limit`.
+ */
+export async function lookupFailureIssues(
+  octokit: Octokit,
+  target: IssueTarget,
+  label: string,
+  state: IssueState,
+  terms: string[],
+  limit = DEFAULT_LOOKUP_LIMIT
+): Promise<Issue[]> {
+  const issues = await listFailureIssues(octokit, target, label, state, limit);
+  if (issues.length < limit) return issues;
+  const seen = new Set(issues.map((issue) => issue.number));
+  for (const term of terms) {
+    for (const issue of await searchFailureIssues(octokit, target, label, state, term)) {
+      if (seen.has(issue.number)) continue;
+      seen.add(issue.number);
+      issues.push(issue);
+    }
+  }
+  return issues;
+}
+
+/** First issue whose title carries `fingerprint`, for issues without metadata. */
+export function findIssueByTitle(issues: Issue[], fingerprint: string): Issue | null {
+  return issues.find((issue) => issue.title.includes(fingerprint)) ?? null;
+}
@@ -0,0 +1,54 @@
+import * as github from '@actions/github';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export type WorkflowJob = Awaited<
+  ReturnType<Octokit['rest']['actions']['listJobsForWorkflowRun']>
+>['data']['jobs'][number];
+
+interface RunContext {
+  owner: string;
+  repo: string;
+  workflow: { runId: string };
+}
+
+async function listRunJobs(octokit: Octokit, ctx: RunContext): Promise<WorkflowJob[]> {
+  const runId = Number(ctx.workflow.runId);
+  if (!ctx.owner || !ctx.repo || !Number.isFinite(runId) || runId <= 0) return [];
+
+  const { data } = await octokit.rest.actions.listJobsForWorkflowRun({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    run_id: runId,
+    filter: 'latest',
+    per_page: 100,
+  });
+  return data.jobs;
+}
+
+const failed = (j: WorkflowJob) =>
+  j.conclusion === 'failure' || (j.steps ?? []).some((s) => s.conclusion === 'failure');
+
+/**
+ * Jobs of the run (latest attempt) that failed, or that are still running with a
+ * failed step (the action running inline in the failing job). Empty when the
+ * run id is unknown.
+ */
+export async function listFailedJobs(octokit: Octokit, ctx: RunContext): Promise<WorkflowJob[]> {
+  return (await listRunJobs(octokit, ctx)).filter(failed);
+}
+
+/**
+ * Jobs of the run (latest attempt) that succeeded, plus the job running the
+ * action (by `RUNNER_NAME`) while it has no failed step: the action running
+ * inline after the checks, or in a job that `needs` them. Other jobs still
+ * in progress are not counted, as they may yet fail. Empty when the run id
+ * is unknown.
+ */
+export async function listPassingJobs(octokit: Octokit, ctx: RunContext): Promise<WorkflowJob[]> {
+  const runner = process.env.RUNNER_NAME;
+  const running = (j: WorkflowJob) => !!runner && j.runner_name === runner;
+  return (await listRunJobs(octokit, ctx)).filter(
+    (j) => j.conclusion === 'success' || (!j.conclusion && running(j) && !failed(j))
+  );
+}
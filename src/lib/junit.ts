@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { findFiles } from './files';
+import { tableCell } from './markdown';
+
+export interface FailedTestCase {
+  suite: string;
+  name: string;
+  classname: string;
+  file: string;
+  kind: 'failure' | 'error';
+  /** Seconds, as reported by the `time` attribute. */
+  time: number;
+  /** Human-readable duration for templates, e.g. `1.25s`. */
+  duration: string;
+  /** First line of the failure message, safe for a markdown table cell. */
+  message: string;
+}
+
+export interface TestReport {
+  files: string[];
+  total: number;
+  skipped: number;
+  failed: number;
+  failures: FailedTestCase[];
+}
+
+const MAX_REPORT_FILES = 200;
+
+const ARRAY_TAGS = new Set(['testsuite', 'testcase', 'failure', 'error', 'skipped']);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  textNodeName: '#text',
+  parseAttributeValue: false,
+  parseTagValue: false,
+  isArray: (tagName) => ARRAY_TAGS.has(tagName),
+});
+
+type XmlNode = Record<string, unknown>;
+
+const nodes = (v: unknown): XmlNode[] => (Array.isArray(v) ? v : v ? [v] : []) as XmlNode[];
+const attr = (n: XmlNode, key: string): string =>
+  typeof n[key] === 'string' ? (n[key] as string) : '';
+
+function seconds(raw: string): number {
+  const n = Number(raw.replace(/,/g, ''));
+  return Number.isFinite(n) ? n : 0;
+}
+
+function failureOf(tc: XmlNode): { kind: 'failure' | 'error'; message: string } | null {
+  for (const kind of ['failure', 'error'] as const) {
+    const [node] = nodes(tc[kind]);
+    if (node === undefined) continue;
+    if (typeof node === 'string') return { kind, message: tableCell(node) };
+    const message = attr(node, 'message') || attr(node, '#text') || attr(node, 'type');
+    return { kind, message: tableCell(message) };
+  }
+  return null;
+}
+
+/**
+ * Parse one JUnit XML document. Accepts a `<testsuites>` root, a bare
+ * `<testsuite>` root and nested suites (as written by Jest, pytest, Maven
+ * Surefire, Gradle and go-junit-report).
+ */
+export function parseJUnitXml(xml: string): Omit<TestReport, 'files'> {
+  const valid = XMLValidator.validate(xml);
+  if (valid !== true) throw new Error(`Invalid XML: ${valid.err.msg} (line ${valid.err.line})`);
+  const doc = parser.parse(xml) as XmlNode;
+  const report: Omit<TestReport, 'files'> = { total: 0, skipped: 0, failed: 0, failures: [] };
+
+  const walk = (suite: XmlNode, parentName: string) => {
+    const suiteName = attr(suite, 'name') || parentName;
+    for (const tc of nodes(suite.testcase)) {
+      report.total++;
+      if (tc.skipped !== undefined) {
+        report.skipped++;
+        continue;
+      }
+      const failure = failureOf(tc);
+      if (!failure) continue;
+      report.failed++;
+      const time = seconds(attr(tc, 'time'));
+      report.failures.push({
+        suite: suiteName,
+        name: attr(tc, 'name'),
+        classname: attr(tc, 'classname'),
+        file: attr(tc, 'file'),
+        kind: failure.kind,
+        time,
+        duration: `${Number(time.toFixed(3))}s`,
+        message: failure.message,
+      });
+    }
+    for (const child of nodes(suite.testsuite)) walk(child, suiteName);
+  };
+
+  const root = (doc.testsuites as XmlNode | undefined) ?? doc;
+  for (const suite of nodes(root.testsuite)) walk(suite, attr(root, 'name'));
+  return report;
+}
+
+/**
+ * Resolve newline- or comma-separated globs and merge every JUnit report found.
+ * Returns null when no report matched; unparsable files are skipped.
+ */
+export async function loadTestReports(
+  patterns: string,
+  onSkip: (file: string, err: unknown) => void = () => undefined
+): Promise<TestReport | null> {
+  const files = await findFiles(patterns, MAX_REPORT_FILES);
+  if (files.length === 0) return null;
+
+  const merged: TestReport = { files: [], total: 0, skipped: 0, failed: 0, failures: [] };
+  for (const file of files) {
+    try {
+      const report = parseJUnitXml(fs.readFileSync(file, 'utf8'));
+      merged.files.push(file);
+      merged.total += report.total;
+      merged.skipped += report.skipped;
+      merged.failed += report.failed;
+      merged.failures.push(...report.failures);
+    } catch (err) {
+      onSkip(file, err);
+    }
+  }
+  return merged.files.length ? merged : null;
+}
+
+/**
+ * Stable identities of the failing tests, sorted so that report and shard order
+ * do not affect the fingerprint. Messages and durations are left out on purpose.
+ */
+export function testSignatures(report: TestReport): string[] {
+  const ids = report.failures.map(
+    (f) => `junit ${f.suite} > ${f.classname ? `${f.classname}.` : ''}${f.name}`
+  );
+  return Array.from(new Set(ids)).sort();
+}
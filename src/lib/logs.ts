@@ -0,0 +1,163 @@
+import * as github from '@actions/github';
+import { listFailedJobs } from './jobs';
+import { codeFence } from './markdown';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface LogExcerpt {
+  jobName: string;
+  jobUrl: string;
+  stepName: string;
+  /** Window of log lines around the failure, timestamps and ANSI codes stripped. */
+  lines: string[];
+  /** Lines flagged as errors inside the window; these feed errorSignatures. */
+  errorLines: string[];
+  /** `lines` joined with newlines, for templates. */
+  text: string;
+  /** Code fence for `text`, longer than any backtick run in it. */
+  fence: string;
+}
+
+export interface ExcerptOptions {
+  contextLines?: number;
+  maxLines?: number;
+  maxErrorLines?: number;
+}
+
+const DEFAULT_CONTEXT_LINES = 10;
+const DEFAULT_MAX_LINES = 80;
+const DEFAULT_MAX_ERROR_LINES = 10;
+
+const TIMESTAMP_PREFIX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z ?/;
+// eslint-disable-next-line no-control-regex
+const ANSI = /\u001b\[[0-9;]*m/g;
+const ERROR_MARKER = '##[error]';
+const STEP_MARKER = /^##\[group\]Run /;
+const FALLBACK_ERROR =
+  /\b(error|fail|failed|failure|exception|fatal)\b|\w(?:error|exception)\b|ERR!/i;
+// The runner's own marker after a failing step; it names no actual error
+const RUNNER_EXIT = /^##\[error\]Process completed with exit code \d+\.?$/;
+
+export function cleanLogLines(raw: string): string[] {
+  return raw.split(/\r?\n/).map((l) => l.replace(TIMESTAMP_PREFIX, '').replace(ANSI, ''));
+}
+
+function displayLine(line: string): string {
+  return line.replace(/^##\[(?:group|endgroup|error|warning|notice|debug)\]/, '');
+}
+
+function sectionStartOf(lines: string[], index: number): number {
+  for (let i = index; i >= 0; i--) {
+    if (STEP_MARKER.test(lines[i])) return i;
+  }
+  return 0;
+}
+
+/**
+ * Lines to excerpt around: the `##[error]` markers, apart from the runner's
+ * exit-code marker. When that is the only one, the error-looking lines of its
+ * step (or the marker itself, if there are none); without any marker, every
+ * error-looking line.
+ */
+function errorIndexes(lines: string[]): number[] {
+  const fallback = (i: number) => !lines[i].startsWith('##[') && FALLBACK_ERROR.test(lines[i]);
+  const markers = lines.flatMap((l, i) => (l.startsWith(ERROR_MARKER) ? [i] : []));
+  const errors = markers.filter((i) => !RUNNER_EXIT.test(lines[i]));
+  if (errors.length) return errors;
+  if (markers.length) {
+    const exit = markers[markers.length - 1];
+    const start = sectionStartOf(lines, exit);
+    const inStep = Array.from({ length: exit - start }, (_, k) => start + k).filter(fallback);
+    return inStep.length ? inStep : [exit];
+  }
+  return lines.flatMap((_, i) => (fallback(i) ? [i] : []));
+}
+
+/**
+ * Cut the error window out of a raw job log. The window is bounded by the step
+ * section (`##[group]Run ...`) that holds the last error line, padded with
+ * `contextLines` on each side and trimmed to `maxLines` ending at the error.
+ */
+export function excerptLog(
+  raw: string,
+  opts: ExcerptOptions = {}
+): { lines: string[]; errorLines: string[]; stepName: string } {
+  const contextLines = opts.contextLines ?? DEFAULT_CONTEXT_LINES;
+  const maxLines = opts.maxLines ?? DEFAULT_MAX_LINES;
+  const maxErrorLines = opts.maxErrorLines ?? DEFAULT_MAX_ERROR_LINES;
+  const lines = cleanLogLines(raw);
+
+  const errorIdx = errorIndexes(lines);
+  if (errorIdx.length === 0) return { lines: [], errorLines: [], stepName: '' };
+
+  const last = errorIdx[errorIdx.length - 1];
+  const sectionStart = sectionStartOf(lines, last);
+  const stepName = STEP_MARKER.test(lines[sectionStart])
+    ? lines[sectionStart].replace(/^##\[group\]/, '')
+    : '';
+
+  const inSection = errorIdx.filter((i) => i >= sectionStart);
+  const start = Math.max(sectionStart, inSection[0] - contextLines, last - maxLines + 1);
+  const end = Math.min(lines.length - 1, last + contextLines, start + maxLines - 1);
+
+  const window = lines
+    .slice(start, end + 1)
+    .filter((l) => !l.startsWith('##[endgroup]'))
+    .map(displayLine);
+  const errorLines = Array.from(
+    new Set(inSection.filter((i) => i >= start).map((i) => displayLine(lines[i]).trim()))
+  )
+    .filter(Boolean)
+    .slice(0, maxErrorLines);
+
+  return { lines: window, errorLines, stepName };
+}
+
+export interface FailedJobLog {
+  jobName: string;
+  jobUrl: string;
+  stepName: string;
+  /** Whole job log, timestamps and ANSI codes stripped. */
+  lines: string[];
+}
+
+/**
+ * Download the log of the first failed job in the run.
+ * Returns null when the run id is unknown or no job failed; API errors
+ * (e.g. a token without `actions: read`) are left to the caller.
+ */
+export async function fetchFailedJobLog(
+  octokit: Octokit,
+  ctx: { owner: string; repo: string; workflow: { runId: string } }
+): Promise<FailedJobLog | null> {
+  const [job] = await listFailedJobs(octokit, ctx);
+  if (!job) return null;
+
+  const res = await octokit.rest.actions.downloadJobLogsForWorkflowRun({
+    owner: ctx.owner,
+    repo: ctx.repo,
+    job_id: job.id,
+  });
+  const failedStep = (job.steps ?? []).find((s) => s.conclusion === 'failure');
+  return {
+    jobName: job.name,
+    jobUrl: job.html_url ?? '',
+    stepName: failedStep?.name ?? '',
+    lines: cleanLogLines(String(res.data ?? '')),
+  };
+}
+
+export function excerptJobLog(log: FailedJobLog, opts: ExcerptOptions = {}): LogExcerpt | null {
+  const excerpt = excerptLog(log.lines.join('\n'), opts);
+  if (excerpt.lines.length === 0) return null;
+  const text = excerpt.lines.join('\n');
+  return {
+    jobName: log.jobName,
+    jobUrl: log.jobUrl,
+    stepName: log.stepName || excerpt.stepName,
+    lines: excerpt.lines,
+    errorLines: excerpt.errorLines,
+    text,
+    fence: codeFence(text),
+  };
+}
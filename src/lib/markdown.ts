@@ -0,0 +1,12 @@
+/** First non-blank line of `raw`, pipe-escaped and truncated for a markdown table cell. */
+export function tableCell(raw: string, maxLength = 200): string {
+  const first = raw.split(/\r?\n/).find((l) => l.trim()) ?? '';
+  const text = first.trim().replace(/\|/g, '\\|');
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/** Backtick fence longer than any backtick run in `text`, so the text cannot close it. */
+export function codeFence(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
@@ -0,0 +1,145 @@
+import * as github from '@actions/github';
+import {
+  IssueMetadata,
+  nextMetadata,
+  Occurrence,
+  readMetadata,
+  writeMetadata,
+} from './issue-metadata';
+import { Issue, IssueTarget } from './issues';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface OccurrenceRun {
+  runUrl: string;
+  runNumber: string;
+  sha: string;
+  commitUrl: string;
+  branch: string;
+}
+
+/** A failing run, as the create path reports it on an issue. */
+export interface FailureReport {
+  /** What the run adds to an issue's metadata block. */
+  occurrence: Occurrence;
+  run: OccurrenceRun;
+  /** Redacted body a new issue would get, without header or metadata block. */
+  rendered: string;
+}
+
+const HEADER = /<!-- wic:header -->[\s\S]*?<!-- \/wic:header -->\n*/;
+const OCCURRENCE_MARKER = '<!-- wic:occurrence -->';
+
+// Error lines listed per occurrence comment
+const MAX_COMMENT_LINES = 10;
+
+/** Status lines at the top of the body, the only part refreshed on recurrence. */
+export function summaryHeader(meta: IssueMetadata, run: OccurrenceRun): string {
+  return [
+    '<!-- wic:header -->',
+    `> **Failing** · seen ${meta.occurrences} time(s) · first ${meta.firstSeen} · last ${meta.lastSeen}`,
+    `> Latest: [run #${run.runNumber}](${run.runUrl}) on \`${run.branch}\` at [\`${run.sha.slice(0, 7)}\`](${run.commitUrl})`,
+    '<!-- /wic:header -->',
+    '',
+  ].join('\n');
+}
+
+/** Swap the header of an existing body, or put one on top. */
+export function refreshHeader(body: string, header: string): string {
+  return HEADER.test(body) ? body.replace(HEADER, header) : `${header}\n${body}`;
+}
+
+/**
+ * Compact recurrence comment. Error lines not seen in the previous occurrence
+ * are listed; an unchanged set is only mentioned.
+ */
+export function occurrenceComment(
+  meta: IssueMetadata,
+  run: OccurrenceRun,
+  previousLines: string[] | undefined,
+  lines: string[]
+): string {
+  const seen = new Set(previousLines ?? []);
+  const fresh = lines.filter((l) => !seen.has(l));
+  const out = [
+    OCCURRENCE_MARKER,
+    `Failed again in [run #${run.runNumber}](${run.runUrl}) on \`${run.branch}\` at [\`${run.sha.slice(0, 7)}\`](${run.commitUrl}) (occurrence ${meta.occurrences}).`,
+  ];
+  if (previousLines && fresh.length === 0) {
+    out.push('', 'Same error lines as last time.');
+  } else if (fresh.length) {
+    out.push('', previousLines ? '**New or changed error lines**' : '**Error lines**', '```text');
+    out.push(...fresh.slice(0, MAX_COMMENT_LINES), '```');
+  }
+  return out.join('\n');
+}
+
+interface CommentNode {
+  id: string;
+  body: string;
+  isMinimized: boolean;
+}
+
+const COMMENTS_QUERY = `query($owner: String!, $repo: String!, $number: Int!) {
+  repository(owner: $owner, name: $repo) {
+    issue(number: $number) {
+      comments(last: 100) { nodes { id body isMinimized } }
+    }
+  }
+}`;
+
+const MINIMIZE_MUTATION = `mutation($id: ID!) {
+  minimizeComment(input: { subjectId: $id, classifier: OUTDATED }) { clientMutationId }
+}`;
+
+/**
+ * `update-strategy: comment`: post a compact occurrence comment on `issue`
+ * and refresh only the summary header and metadata block of its body.
+ */
+export async function commentOccurrence(
+  octokit: Octokit,
+  target: IssueTarget,
+  issue: Issue,
+  report: FailureReport
+): Promise<void> {
+  const previous = readMetadata(issue.body);
+  const meta = nextMetadata(previous, report.occurrence);
+  await octokit.rest.issues.createComment({
+    ...target,
+    issue_number: issue.number,
+    body: occurrenceComment(
+      meta,
+      report.run,
+      previous?.errorSignatures,
+      report.occurrence.errorSignatures ?? []
+    ),
+  });
+  const refreshed = refreshHeader(issue.body ?? '', summaryHeader(meta, report.run));
+  await octokit.rest.issues.update({
+    ...target,
+    issue_number: issue.number,
+    body: writeMetadata(refreshed, meta),
+  });
+}
+
+/**
+ * Minimize (as outdated) all but the newest `keep` occurrence comments. Only
+ * the last 100 comments are looked at; older ones were handled by earlier
+ * runs. Returns how many were minimized.
+ */
+export async function minimizeOldOccurrences(
+  octokit: Octokit,
+  target: IssueTarget,
+  issueNumber: number,
+  keep: number
+): Promise<number> {
+  const res = await octokit.graphql<{
+    repository: { issue: { comments: { nodes: CommentNode[] } } | null };
+  }>(COMMENTS_QUERY, { owner: target.owner, repo: target.repo, number: issueNumber });
+  const ours = (res.repository.issue?.comments.nodes ?? []).filter((c) =>
+    c.body.startsWith(OCCURRENCE_MARKER)
+  );
+  const stale = ours.slice(0, Math.max(0, ours.length - keep)).filter((c) => !c.isMinimized);
+  for (const c of stale) await octokit.graphql(MINIMIZE_MUTATION, { id: c.id });
+  return stale.length;
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import { z } from 'zod';
+import { ErrorParser, makeParsedError, ParsedError } from './error-parsers';
+import { findFiles } from './files';
+
+// Same schema the runner accepts from `::add-matcher::`
+const PatternSchema = z.object({
+  regexp: z.string(),
+  file: z.number().int().optional(),
+  fromPath: z.number().int().optional(),
+  line: z.number().int().optional(),
+  column: z.number().int().optional(),
+  severity: z.number().int().optional(),
+  code: z.number().int().optional(),
+  message: z.number().int().optional(),
+  loop: z.boolean().optional(),
+});
+
+const MatcherSchema = z.object({
+  owner: z.string().min(1),
+  severity: z.enum(['error', 'warning', 'notice']).optional(),
+  pattern: z.array(PatternSchema).min(1),
+});
+
+const MatcherFileSchema = z.object({ problemMatcher: z.array(MatcherSchema) });
+
+export type ProblemMatcher = z.infer<typeof MatcherSchema>;
+type Pattern = z.infer<typeof PatternSchema>;
+
+type Fields = {
+  file?: string;
+  fromPath?: string;
+  line?: string;
+  column?: string;
+  severity?: string;
+  code?: string;
+  message?: string;
+};
+
+const FIELDS = ['file', 'fromPath', 'line', 'column', 'severity', 'code', 'message'] as const;
+
+const MAX_MATCHER_FILES = 20;
+
+function capture(into: Fields, pattern: Pattern, match: RegExpExecArray): Fields {
+  const out = { ...into };
+  for (const key of FIELDS) {
+    const group = pattern[key];
+    if (typeof group === 'number' && match[group] !== undefined) out[key] = match[group];
+  }
+  return out;
+}
+
+function toError(matcher: ProblemMatcher, f: Fields): ParsedError {
+  let severity = (f.severity || matcher.severity || 'error').toLowerCase();
+  if (severity === 'notice') severity = 'warning';
+  let file = f.file;
+  if (file && f.fromPath && !file.startsWith('/')) {
+    const base = f.fromPath.replace(/[^/\\]*$/, '');
+    file = `${base}${file}`;
+  }
+  return makeParsedError(`matcher:${matcher.owner}`, {
+    severity,
+    file,
+    line: f.line ? Number(f.line) : undefined,
+    column: f.column ? Number(f.column) : undefined,
+    code: f.code,
+    message: (f.message ?? '').trim(),
+  });
+}
+
+/**
+ * Run one matcher over log lines with the runner's semantics: multi-line
+ * patterns must match consecutive lines, and a `loop` on the last pattern
+ * emits one record per further matching line.
+ */
+export function runProblemMatcher(matcher: ProblemMatcher, lines: string[]): ParsedError[] {
+  const patterns = matcher.pattern.map((p) => ({ ...p, re: new RegExp(p.regexp) }));
+  const last = patterns.length - 1;
+  const out: ParsedError[] = [];
+
+  // index of the next pattern to match, and fields captured by earlier patterns
+  let next = 0;
+  let captured: Fields = {};
+
+  const start = (line: string) => {
+    next = 0;
+    captured = {};
+    const m = patterns[0].re.exec(line);
+    if (!m) return;
+    captured = capture({}, patterns[0], m);
+    if (last === 0) out.push(toError(matcher, captured));
+    else next = 1;
+  };
+
+  for (const line of lines) {
+    if (next === 0) {
+      start(line);
+      continue;
+    }
+    const m = patterns[next].re.exec(line);
+    if (!m) {
+      start(line);
+      continue;
+    }
+    if (next < last) {
+      captured = capture(captured, patterns[next], m);
+      next++;
+      continue;
+    }
+    out.push(toError(matcher, capture(captured, patterns[next], m)));
+    // A looping last pattern stays armed with the fields captured before it
+    if (!patterns[next].loop) {
+      next = 0;
+      captured = {};
+    }
+  }
+  return out;
+}
+
+/** Wrap matchers as error parsers so they run ahead of the built-in ones. */
+export function problemMatcherParsers(matchers: ProblemMatcher[]): ErrorParser[] {
+  return matchers.map((matcher) => ({
+    id: `matcher:${matcher.owner}`,
+    categories: [],
+    detect: (lines) => runProblemMatcher(matcher, lines).length > 0,
+    parse: (lines) => runProblemMatcher(matcher, lines),
+  }));
+}
+
+/** Parse a matcher file; throws on invalid JSON, schema violations or bad regexps. */
+export function parseProblemMatcherFile(text: string): ProblemMatcher[] {
+  const { problemMatcher } = MatcherFileSchema.parse(JSON.parse(text));
+  for (const m of problemMatcher) m.pattern.forEach((p) => new RegExp(p.regexp));
+  return problemMatcher;
+}
+
+/**
+ * Load every matcher from newline- or comma-separated globs. Unreadable or
+ * invalid files are skipped; a later matcher with the same owner replaces an
+ * earlier one, as with `::add-matcher::`.
+ */
+export async function loadProblemMatchers(
+  patterns: string,
+  onSkip: (file: string, err: unknown) => void = () => undefined
+): Promise<ProblemMatcher[]> {
+  const byOwner = new Map<string, ProblemMatcher>();
+  for (const file of await findFiles(patterns, MAX_MATCHER_FILES)) {
+    try {
+      const matchers = parseProblemMatcherFile(fs.readFileSync(file, 'utf8'));
+      for (const m of matchers) byOwner.set(m.owner, m);
+    } catch (err) {
+      onSkip(file, err);
+    }
+  }
+  return Array.from(byOwner.values());
+}
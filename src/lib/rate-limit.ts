@@ -0,0 +1,81 @@
+import * as github from '@actions/github';
+import {
+  IssueMetadata,
+  nextMetadata,
+  Occurrence,
+  readMetadata,
+  writeMetadata,
+} from './issue-metadata';
+import { Issue, IssueTarget } from './issues';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Whether `now` is still inside the backoff window started at `since`. */
+export function withinBackoff(since: string | undefined, now: string, hours: number): boolean {
+  if (!since || !(hours > 0)) return false;
+  const elapsed = Date.parse(now) - Date.parse(since);
+  return Number.isFinite(elapsed) && elapsed >= 0 && elapsed < hours * 3_600_000;
+}
+
+/**
+ * Metadata for an occurrence inside the window: counted, but the last
+ * notification time and error lines stay those of the last report.
+ */
+export function suppressOccurrence(
+  next: IssueMetadata,
+  previous: IssueMetadata | null,
+  notifiedAt: string
+): IssueMetadata {
+  return {
+    ...next,
+    errorSignatures: previous?.errorSignatures ?? next.errorSignatures,
+    notifiedAt,
+    suppressed: (previous?.suppressed ?? 0) + 1,
+  };
+}
+
+/** Comment summarising the occurrences counted during the last window. */
+export function batchedSummary(previous: IssueMetadata, runUrl: (runId: string) => string): string {
+  const count = previous.suppressed ?? 0;
+  const runs = previous.runIds.slice(-count);
+  return [
+    `${count} more occurrence(s) between ${previous.notifiedAt} and ${previous.lastSeen} were counted without notification (rate-limit-hours):`,
+    '',
+    ...runs.map((id) => `- [run ${id}](${runUrl(id)})`),
+  ].join('\n');
+}
+
+/**
+ * `rate-limit-hours` backoff for a recurrence on `issue`. Inside the window
+ * the occurrence is only counted in the metadata block, which notifies
+ * nobody, and true is returned. After it, the runs counted during the last
+ * window (if any) get one summary comment before the caller reports this one.
+ */
+export async function backOff(
+  octokit: Octokit,
+  target: IssueTarget,
+  issue: Issue,
+  occurrence: Occurrence,
+  hours: number,
+  runUrl: (runId: string) => string
+): Promise<boolean> {
+  const previous = readMetadata(issue.body);
+  const since = previous?.notifiedAt ?? issue.updated_at;
+  if (withinBackoff(since, occurrence.timestamp, hours)) {
+    const counted = suppressOccurrence(nextMetadata(previous, occurrence), previous, since);
+    await octokit.rest.issues.update({
+      ...target,
+      issue_number: issue.number,
+      body: writeMetadata(issue.body ?? '', counted),
+    });
+    return true;
+  }
+  if (previous?.suppressed) {
+    await octokit.rest.issues.createComment({
+      ...target,
+      issue_number: issue.number,
+      body: batchedSummary(previous, runUrl),
+    });
+  }
+  return false;
+}
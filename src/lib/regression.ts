@@ -0,0 +1,64 @@
+import * as github from '@actions/github';
+import { readMetadata } from './issue-metadata';
+import { Issue, IssueTarget } from './issues';
+import { OccurrenceRun } from './occurrences';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export const REGRESSION_LABEL = 'regression';
+
+/**
+ * Most recently closed of `closed` for one of `fingerprints`, matched on the
+ * metadata block or, for older issues, the title.
+ */
+export function findClosedMatch(closed: Issue[], fingerprints: string[]): Issue | null {
+  const matches = closed.filter((issue) => {
+    const meta = readMetadata(issue.body);
+    return meta
+      ? fingerprints.includes(meta.fingerprint)
+      : fingerprints.some((fp) => issue.title.includes(fp));
+  });
+  if (!matches.length) return null;
+  return matches.reduce((a, b) => ((b.closed_at ?? '') > (a.closed_at ?? '') ? b : a));
+}
+
+/** Whether an issue closed at `closedAt` is still inside the reopen window. */
+export function withinReopenWindow(
+  closedAt: string | null | undefined,
+  now: string,
+  days: number
+): boolean {
+  if (!closedAt || !(days > 0)) return false;
+  const elapsed = Date.parse(now) - Date.parse(closedAt);
+  return Number.isFinite(elapsed) && elapsed < days * 86_400_000;
+}
+
+/** Reopen a closed issue, label it as a regression and say where it came back. */
+export async function reopenAsRegression(
+  octokit: Octokit,
+  target: IssueTarget,
+  issue: Issue,
+  run: OccurrenceRun
+) {
+  const { data } = await octokit.rest.issues.update({
+    ...target,
+    issue_number: issue.number,
+    state: 'open',
+  });
+  await octokit.rest.issues.addLabels({
+    ...target,
+    issue_number: issue.number,
+    labels: [REGRESSION_LABEL],
+  });
+  await octokit.rest.issues.createComment({
+    ...target,
+    issue_number: issue.number,
+    body: `Regressed: failing again in [run #${run.runNumber}](${run.runUrl}) on \`${run.branch}\` at [\`${run.sha.slice(0, 7)}\`](${run.commitUrl}), after being closed ${issue.closed_at}.`,
+  });
+  return data;
+}
+
+/** Cross-link for a new issue whose fingerprint was tracked before. */
+export function previousIssueNote(issue: Issue): string {
+  return `> Previously tracked in #${issue.number} (closed ${issue.closed_at}).`;
+}
@@ -0,0 +1,207 @@
+import * as github from '@actions/github';
+import { readMetadata, sourceRepository, writeMetadata } from './issue-metadata';
+import { Issue, IssueTarget } from './issues';
+import { OccurrenceRun } from './occurrences';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface ResolveScope {
+  /** `owner/repo` whose run passed. */
+  repository: string;
+  workflow: string;
+  /** Jobs that passed, with their fingerprint scope, as recorded in the metadata. */
+  jobs: string[];
+  /** Only resolve issues last seen on this branch; unset matches any. */
+  branch?: string;
+}
+
+/**
+ * Open failure issues a green run of `scope` resolves: every issue whose
+ * metadata names the same repository and workflow, one of the passing jobs
+ * (and the branch, if set), whatever its error lines. Issues without metadata
+ * fall back to the title `fingerprints`.
+ */
+export function resolvableIssues(
+  issues: Issue[],
+  scope: ResolveScope,
+  fingerprints: string[]
+): Issue[] {
+  return issues.filter((issue) => {
+    const meta = readMetadata(issue.body);
+    if (sourceRepository(issue, meta) !== scope.repository) return false;
+    if (!meta) return fingerprints.some((fp) => issue.title.includes(fp));
+    return (
+      meta.workflow === scope.workflow &&
+      scope.jobs.includes(meta.job) &&
+      (!scope.branch || meta.branch === scope.branch)
+    );
+  });
+}
+
+export interface PassingRun extends OccurrenceRun {
+  runId: string;
+  /** Repository the run built, where its commits live. */
+  repo: IssueTarget;
+}
+
+export interface ResolvingCommit {
+  sha: string;
+  url: string;
+  author: string;
+  message: string;
+}
+
+export interface ChangeRange {
+  compareUrl: string;
+  total: number;
+  commits: ResolvingCommit[];
+}
+
+// Commits listed in the resolution comment
+const MAX_RESOLUTION_COMMITS = 20;
+
+/**
+ * Commits from the last failing sha to the passing one. Null when the
+ * compare is unavailable, e.g. the failing commit was force-pushed away.
+ */
+export async function fetchChangeRange(
+  octokit: Octokit,
+  repo: IssueTarget,
+  base: string,
+  head: string
+): Promise<ChangeRange | null> {
+  try {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      ...repo,
+      basehead: `${base}...${head}`,
+    });
+    return {
+      compareUrl: data.html_url,
+      total: data.total_commits,
+      commits: data.commits.map((c) => ({
+        sha: c.sha,
+        url: c.html_url,
+        author: c.author?.login ? `@${c.author.login}` : (c.commit.author?.name ?? 'unknown'),
+        message: c.commit.message.split('\n')[0],
+      })),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Closing comment: passing run, the sha that turned it green and what changed. */
+export function resolutionComment(
+  run: OccurrenceRun,
+  lastFailingSha: string | undefined,
+  range: ChangeRange | null
+): string {
+  const short = (sha: string) => sha.slice(0, 7);
+  const out = [
+    `Resolved: [run #${run.runNumber}](${run.runUrl}) passed on \`${run.branch}\` at [\`${short(run.sha)}\`](${run.commitUrl}).`,
+  ];
+  if (!lastFailingSha) return out[0];
+  if (lastFailingSha === run.sha) {
+    out.push(
+      '',
+      `Same commit as the last failure (\`${short(run.sha)}\`); the failure may be flaky.`
+    );
+    return out.join('\n');
+  }
+  if (!range) {
+    out.push('', `Last failed at \`${short(lastFailingSha)}\`.`);
+    return out.join('\n');
+  }
+  out.push(
+    '',
+    `Changes since the last failure: [\`${short(lastFailingSha)}...${short(run.sha)}\`](${range.compareUrl}) (${range.total} commit(s))`,
+    ''
+  );
+  // Newest first, as the fix is most likely among the latest commits
+  const listed = range.commits.slice(-MAX_RESOLUTION_COMMITS).reverse();
+  for (const c of listed) out.push(`- [\`${short(c.sha)}\`](${c.url}) ${c.message} (${c.author})`);
+  if (range.total > listed.length) out.push(`- … ${range.total - listed.length} more`);
+  return out.join('\n');
+}
+
+/**
+ * Close a resolved issue as completed, with a comment naming the passing run
+ * and the commits since the last failure.
+ */
+export async function closeResolved(
+  octokit: Octokit,
+  target: IssueTarget,
+  issue: Issue,
+  run: PassingRun
+): Promise<void> {
+  const lastSha = readMetadata(issue.body)?.sha;
+  const range =
+    lastSha && lastSha !== run.sha
+      ? await fetchChangeRange(octokit, run.repo, lastSha, run.sha)
+      : null;
+  await octokit.rest.issues.createComment({
+    ...target,
+    issue_number: issue.number,
+    body: resolutionComment(run, lastSha, range),
+  });
+  await octokit.rest.issues.update({
+    ...target,
+    issue_number: issue.number,
+    state: 'closed',
+    state_reason: 'completed',
+  });
+}
+
+/**
+ * Count a green run towards closing `issue`: it closes once `required`
+ * consecutive passes are recorded in the metadata, otherwise the streak is
+ * stored and reported in a comment. A run counts once, however many of its
+ * jobs or re-runs close on success. Issues without metadata close at once.
+ * Returns whether the issue was closed.
+ */
+export async function recordPass(
+  octokit: Octokit,
+  target: IssueTarget,
+  issue: Issue,
+  run: PassingRun,
+  required: number
+): Promise<boolean> {
+  const meta = readMetadata(issue.body);
+  if (meta?.lastPassRunId === run.runId) return false;
+  const passes = (meta?.passes ?? 0) + 1;
+  if (!meta || passes >= required) {
+    await closeResolved(octokit, target, issue, run);
+    return true;
+  }
+  await octokit.rest.issues.update({
+    ...target,
+    issue_number: issue.number,
+    body: writeMetadata(issue.body ?? '', { ...meta, passes, lastPassRunId: run.runId }),
+  });
+  await octokit.rest.issues.createComment({
+    ...target,
+    issue_number: issue.number,
+    body: `${passes}/${required} consecutive passes: [run #${run.runNumber}](${run.runUrl}) passed on \`${run.branch}\`. Closes after ${required}.`,
+  });
+  return false;
+}
+
+/**
+ * close-on-success: record the passing `run` on every issue of `issues` it
+ * resolves. Returns the ones it closed.
+ */
+export async function resolveIssues(
+  octokit: Octokit,
+  target: IssueTarget,
+  issues: Issue[],
+  scope: ResolveScope,
+  fingerprints: string[],
+  run: PassingRun,
+  required: number
+): Promise<Issue[]> {
+  const closed: Issue[] = [];
+  for (const issue of resolvableIssues(issues, scope, fingerprints)) {
+    if (await recordPass(octokit, target, issue, run, required)) closed.push(issue);
+  }
+  return closed;
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as github from '@actions/github';
+import { findFiles, repoPath } from './files';
+import { DEFAULT_LOOKUP_LIMIT } from './issues';
+import { tableCell } from './markdown';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low' | 'error' | 'warning' | 'note';
+
+export interface SarifFinding {
+  tool: string;
+  ruleId: string;
+  severity: FindingSeverity;
+  file: string;
+  line?: number;
+  /** `file:line` for templates. */
+  location: string;
+  /** First line of the result message, safe for a markdown table cell. */
+  message: string;
+  /** html_url of the matching open code-scanning alert, when one exists. */
+  alertUrl?: string;
+  /** Rule id + location, used for fingerprinting. */
+  signature: string;
+}
+
+export interface SarifSummary {
+  files: string[];
+  tools: string;
+  findings: SarifFinding[];
+}
+
+const MAX_SARIF_FILES = 50;
+
+const SEVERITY_ORDER: FindingSeverity[] = [
+  'critical',
+  'high',
+  'medium',
+  'low',
+  'error',
+  'warning',
+  'note',
+];
+
+const UNKNOWN_TOOL = 'unknown';
+
+// The parts of a SARIF 2.1.0 log read here; producers leave most of it out
+interface SarifRule {
+  id?: string;
+  shortDescription?: { text?: string };
+  defaultConfiguration?: { level?: string };
+  properties?: { 'security-severity'?: string | number };
+}
+
+interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: { id?: string };
+  level?: string;
+  message?: { text?: string };
+  locations?: {
+    physicalLocation?: {
+      artifactLocation?: { uri?: string };
+      region?: { startLine?: number };
+    };
+  }[];
+  partialFingerprints?: { primaryLocationLineHash?: string };
+  suppressions?: unknown[];
+  baselineState?: string;
+}
+
+interface SarifRun {
+  tool?: { driver?: { name?: string; rules?: SarifRule[] } };
+  results?: SarifResult[];
+}
+
+interface SarifLog {
+  runs?: SarifRun[];
+}
+
+/** Map `security-severity` (CVSS score) or the SARIF level onto one scale. */
+function severityOf(result: SarifResult, rule?: SarifRule): FindingSeverity {
+  const score = Number(rule?.properties?.['security-severity']);
+  if (Number.isFinite(score) && score > 0) {
+    if (score >= 9) return 'critical';
+    if (score >= 7) return 'high';
+    if (score >= 4) return 'medium';
+    return 'low';
+  }
+  const level = result.level ?? rule?.defaultConfiguration?.level ?? 'warning';
+  return level === 'error' || level === 'note' ? level : 'warning';
+}
+
+function ruleFor(run: SarifRun, result: SarifResult): SarifRule | undefined {
+  const rules = run.tool?.driver?.rules ?? [];
+  if (typeof result.ruleIndex === 'number' && rules[result.ruleIndex])
+    return rules[result.ruleIndex];
+  const id = result.ruleId ?? result.rule?.id;
+  return rules.find((r) => r.id === id);
+}
+
+/** Flatten every result of every run in a SARIF log. */
+export function parseSarif(log: string | object): SarifFinding[] {
+  const doc = (typeof log === 'string' ? JSON.parse(log) : log) as SarifLog | null;
+  if (!doc || !Array.isArray(doc.runs)) throw new Error('Not a SARIF log: missing runs[]');
+
+  const findings: SarifFinding[] = [];
+  for (const run of doc.runs) {
+    const tool = run.tool?.driver?.name ?? UNKNOWN_TOOL;
+    for (const result of run.results ?? []) {
+      if (result.suppressions?.length || result.baselineState === 'absent') continue;
+      const rule = ruleFor(run, result);
+      const ruleId = result.ruleId ?? result.rule?.id ?? rule?.id ?? 'unknown-rule';
+      const physical = result.locations?.[0]?.physicalLocation;
+      const file = repoPath(physical?.artifactLocation?.uri) ?? '';
+      const line = physical?.region?.startLine;
+      // Scanners that emit a line hash let the fingerprint survive unrelated edits above the finding
+      const anchor = result.partialFingerprints?.primaryLocationLineHash ?? line ?? '';
+      findings.push({
+        tool,
+        ruleId,
+        severity: severityOf(result, rule),
+        file,
+        line,
+        location: line ? `${file}:${line}` : file,
+        message: tableCell(result.message?.text ?? rule?.shortDescription?.text ?? ''),
+        signature: `sarif ${ruleId} ${file}${anchor !== '' ? `#${anchor}` : ''}`,
+      });
+    }
+  }
+  return findings;
+}
+
+export function sortFindings(findings: SarifFinding[]): SarifFinding[] {
+  return [...findings].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      a.ruleId.localeCompare(b.ruleId) ||
+      a.location.localeCompare(b.location)
+  );
+}
+
+/**
+ * Resolve newline- or comma-separated globs and merge every SARIF log found.
+ * Returns null when no log matched; unparsable files are skipped.
+ */
+export async function loadSarifFiles(
+  patterns: string,
+  onSkip: (file: string, err: unknown) => void = () => undefined
+): Promise<SarifSummary | null> {
+  const files = await findFiles(patterns, MAX_SARIF_FILES);
+  const summary: SarifSummary = { files: [], tools: '', findings: [] };
+  for (const file of files) {
+    try {
+      summary.findings.push(...parseSarif(fs.readFileSync(file, 'utf8')));
+      summary.files.push(file);
+    } catch (err) {
+      onSkip(file, err);
+    }
+  }
+  if (summary.files.length === 0) return null;
+  summary.findings = sortFindings(summary.findings);
+  summary.tools = Array.from(new Set(summary.findings.map((f) => f.tool))).join(', ');
+  return summary;
+}
+
+export function sarifSignatures(findings: SarifFinding[]): string[] {
+  return Array.from(new Set(findings.map((f) => f.signature))).sort();
+}
+
+/**
+ * Attach `alertUrl` to findings that match an open code-scanning alert of
+ * the same tool on the same ref (same rule, path and start line). At most
+ * `limit` alerts are listed per tool. Needs `security-events: read`.
+ */
+export async function linkCodeScanningAlerts(
+  octokit: Octokit,
+  ctx: { owner: string; repo: string; ref: string },
+  findings: SarifFinding[],
+  limit = DEFAULT_LOOKUP_LIMIT
+): Promise<number> {
+  let linked = 0;
+  for (const tool of new Set(findings.map((f) => f.tool))) {
+    let seen = 0;
+    const alerts = await octokit.paginate(
+      octokit.rest.codeScanning.listAlertsForRepo,
+      {
+        owner: ctx.owner,
+        repo: ctx.repo,
+        ref: ctx.ref || undefined,
+        tool_name: tool === UNKNOWN_TOOL ? undefined : tool,
+        state: 'open',
+        per_page: 100,
+      },
+      (response, done) => {
+        seen += response.data.length;
+        if (seen >= limit) done();
+        return response.data;
+      }
+    );
+
+    for (const f of findings.filter((finding) => finding.tool === tool)) {
+      const alert = alerts.slice(0, limit).find((a) => {
+        const loc = a.most_recent_instance?.location;
+        return (
+          a.rule?.id === f.ruleId && loc?.path === f.file && (!f.line || loc?.start_line === f.line)
+        );
+      });
+      if (alert) {
+        f.alertUrl = alert.html_url;
+        linked++;
+      }
+    }
+  }
+  return linked;
+}
@@ -0,0 +1,198 @@
+import * as github from '@actions/github';
+import {
+  nextMetadata,
+  Occurrence,
+  readMetadata,
+  sourceRepository,
+  writeMetadata,
+} from './issue-metadata';
+import { Issue, IssueTarget } from './issues';
+import { FailureReport, occurrenceComment } from './occurrences';
+import { backOff } from './rate-limit';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface SimilarIssue {
+  number: number;
+  html_url: string;
+  title: string;
+  /** 0..1, share of matching simhash bits. */
+  score: number;
+}
+
+const BITS = 64;
+const MASK = (1n << 64n) - 1n;
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+
+const MARKER = /<!--\s*wic:simhash ([0-9a-f]{16})\s*-->/;
+
+function fnv1a64(text: string): bigint {
+  let h = FNV_OFFSET;
+  for (const byte of Buffer.from(text, 'utf8')) {
+    h ^= BigInt(byte);
+    h = (h * FNV_PRIME) & MASK;
+  }
+  return h;
+}
+
+// Same spirit as the fingerprint normalization: numbers, hex ids and case don't matter
+function tokens(line: string): string[] {
+  return line
+    .toLowerCase()
+    .replace(/\b[0-9a-f]{7,}\b/g, '#')
+    .replace(/\d+/g, '#')
+    .split(/[^\w#./-]+/)
+    .filter(Boolean);
+}
+
+// Words plus word pairs: a changed word moves few features, word order still counts
+function features(lines: string[]): string[] {
+  const out: string[] = [];
+  for (const line of lines) {
+    const t = tokens(line);
+    out.push(...t);
+    for (let i = 0; i + 1 < t.length; i++) out.push(`${t[i]} ${t[i + 1]}`);
+  }
+  return out;
+}
+
+/**
+ * 64-bit simhash of the error lines, as 16 hex digits. Lines that differ in a
+ * word or two keep most bits, unlike the fingerprint hash. Empty input gives
+ * an empty string.
+ */
+export function simhash(lines: string[]): string {
+  const feats = features(lines);
+  if (!feats.length) return '';
+  const weights = new Array<number>(BITS).fill(0);
+  for (const f of feats) {
+    const h = fnv1a64(f);
+    for (let bit = 0; bit < BITS; bit++) weights[bit] += (h >> BigInt(bit)) & 1n ? 1 : -1;
+  }
+  let out = 0n;
+  for (let bit = 0; bit < BITS; bit++) if (weights[bit] > 0) out |= 1n << BigInt(bit);
+  return out.toString(16).padStart(16, '0');
+}
+
+/** Share of equal bits between two simhashes, 0..1. */
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return 1 - distance / BITS;
+}
+
+/** Hidden body line that stores the simhash next to the issue. */
+export function simhashMarker(hash: string): string {
+  return hash ? `<!-- wic:simhash ${hash} -->` : '';
+}
+
+export function readSimhash(body?: string | null): string {
+  return MARKER.exec(body ?? '')?.[1] ?? '';
+}
+
+/**
+ * The issue whose stored simhash is closest to `hash`, if it reaches
+ * `threshold`. Issues created before similarity dedupe carry no simhash and
+ * never match.
+ */
+export function findSimilarIssue(
+  issues: Issue[],
+  hash: string,
+  threshold: number
+): SimilarIssue | null {
+  if (!hash) return null;
+  let best: SimilarIssue | null = null;
+  for (const issue of issues) {
+    const score = similarity(hash, readSimhash(issue.body));
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { number: issue.number, html_url: issue.html_url, title: issue.title, score };
+    }
+  }
+  return best;
+}
+
+export interface AttachOptions {
+  threshold: number;
+  rateLimitHours: number;
+  runUrl: (runId: string) => string;
+}
+
+export interface Attachment extends SimilarIssue {
+  /** Only counted in the metadata block, inside rate-limit-hours. */
+  rateLimited: boolean;
+}
+
+/**
+ * Open issues a failure may be attached to by similarity: those whose
+ * metadata names the same repository, workflow, job and category.
+ */
+export function similarityCandidates(issues: Issue[], occurrence: Occurrence): Issue[] {
+  return issues.filter((issue) => {
+    const meta = readMetadata(issue.body);
+    return (
+      !!meta &&
+      sourceRepository(issue, meta) === occurrence.repository &&
+      meta.workflow === occurrence.workflow &&
+      meta.job === occurrence.job &&
+      meta.category === occurrence.category
+    );
+  });
+}
+
+/**
+ * `dedupe-strategy: similarity`: attach `report` to the closest candidate
+ * issue reaching the threshold instead of opening a new one. The occurrence
+ * is recorded in that issue's metadata under its own fingerprint and backs
+ * off like any recurrence; otherwise it gets a compact occurrence comment.
+ * Returns the issue attached to.
+ */
+export async function attachToSimilar(
+  octokit: Octokit,
+  target: IssueTarget,
+  issues: Issue[],
+  hash: string,
+  report: FailureReport,
+  options: AttachOptions
+): Promise<Attachment | null> {
+  const candidates = similarityCandidates(issues, report.occurrence);
+  const similar = findSimilarIssue(candidates, hash, options.threshold);
+  const issue = similar && candidates.find((i) => i.number === similar.number);
+  const previous = issue && readMetadata(issue.body);
+  if (!similar || !issue || !previous) return null;
+
+  const occurrence = {
+    ...report.occurrence,
+    fingerprint: previous.fingerprint,
+    fingerprintVersion: previous.fingerprintVersion,
+  };
+  if (await backOff(octokit, target, issue, occurrence, options.rateLimitHours, options.runUrl)) {
+    return { ...similar, rateLimited: true };
+  }
+  const meta = nextMetadata(previous, occurrence);
+  await octokit.rest.issues.createComment({
+    ...target,
+    issue_number: issue.number,
+    body: [
+      `Similar failure attached (similarity ${similar.score.toFixed(2)}, threshold ${options.threshold}; fingerprint \`${report.occurrence.fingerprint}\`).`,
+      '',
+      occurrenceComment(
+        meta,
+        report.run,
+        previous.errorSignatures,
+        report.occurrence.errorSignatures ?? []
+      ),
+    ].join('\n'),
+  });
+  await octokit.rest.issues.update({
+    ...target,
+    issue_number: issue.number,
+    body: writeMetadata(issue.body ?? '', meta),
+  });
+  return { ...similar, rateLimited: false };
+}
@@ -0,0 +1,214 @@
+import { repoPath } from './files';
+
+export type StackLanguage = 'node' | 'python' | 'jvm' | 'go';
+
+export interface StackFrame {
+  /** Repo-relative path; the bare file name for JVM frames. */
+  file: string;
+  line: number;
+  fn: string;
+  /** `file:line` for templates. */
+  location: string;
+  /** Blob link at the run's sha; empty for frames outside the repository. */
+  url: string;
+}
+
+export interface StackTrace {
+  language: StackLanguage;
+  /** Exception or panic line (`TypeError: x is not a function`). */
+  header: string;
+  /** In-repo frames, innermost first. */
+  frames: StackFrame[];
+  /** Dependency and runtime frames, plus in-repo frames past the cap, left out of `frames`. */
+  collapsed: number;
+}
+
+interface LinkContext {
+  serverUrl: string;
+  repository: string;
+  sha: string;
+}
+
+interface RawFrame {
+  file: string;
+  line: number;
+  fn: string;
+}
+
+const MAX_TRACES = 5;
+const MAX_FRAMES = 10;
+// In-repo frames per trace that go into the fingerprint
+const SIGNATURE_FRAMES = 3;
+
+const VENDOR_PATH =
+  /(^|[/\\])(node_modules|vendor|site-packages|dist-packages|\.venv|venv|\.yarn|\.pnpm)[/\\]|[/\\]go[/\\]pkg[/\\]mod[/\\]|^(node|internal)[:/]|^<[^>]+>$|^\[/;
+const JVM_RUNTIME =
+  /^(java|javax|jdk|sun|com\.sun|kotlin|kotlinx|scala|groovy|jakarta|org\.junit|org\.gradle|org\.apache\.maven|org\.springframework|org\.codehaus|junit)\./;
+
+// Node / V8: `at fn (file:1:2)`, `at file:1:2`; Vitest: `❯ fn file:1:2`
+const NODE_FRAME = /^\s*at (?:(?:async )?(.+?) \()?(.+?):(\d+):\d+\)?$/;
+// Builtins without a location: `at new Promise (<anonymous>)`
+const NODE_NATIVE = /^\s*at (?:async )?(.+?) \((<anonymous>|native|index \d+)\)$/;
+const VITEST_FRAME = /^\s*❯ (?:(\S+) )?(\S+?):(\d+):\d+$/;
+const PY_FRAME = /^\s*File "(.+)", line (\d+)(?:, in (.+))?$/;
+const JVM_FRAME = /^\s*at ([\w$.<>/]+)\.([\w$<>]+)\(([^:)]+)(?::(\d+))?\)$/;
+const GO_FILE = /^\s+(\/\S+\.go|\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?$/;
+
+function isVendor(file: string): boolean {
+  return VENDOR_PATH.test(file) || file.startsWith('/');
+}
+
+function toTrace(
+  language: StackLanguage,
+  header: string,
+  raw: RawFrame[],
+  ctx: LinkContext,
+  inRepo: (f: RawFrame) => boolean
+): StackTrace {
+  const frames: StackFrame[] = [];
+  let collapsed = 0;
+  for (const f of raw) {
+    if (!inRepo(f) || frames.length >= MAX_FRAMES) {
+      collapsed++;
+      continue;
+    }
+    const linkable = language !== 'jvm';
+    frames.push({
+      ...f,
+      location: `${f.file}:${f.line}`,
+      url: linkable
+        ? `${ctx.serverUrl}/${ctx.repository}/blob/${ctx.sha}/${f.file}#L${f.line}`
+        : '',
+    });
+  }
+  return { language, header: header.trim(), frames, collapsed };
+}
+
+const pathFrame = (file: string, line: string, fn = ''): RawFrame => ({
+  file: repoPath(file.replace(/^file:\/\//, '')) ?? file,
+  line: Number(line),
+  fn,
+});
+
+const inRepoPath = (f: RawFrame) => !isVendor(f.file);
+
+function parseNode(lines: string[], i: number, ctx: LinkContext): [StackTrace, number] | null {
+  const frameAt = (l: string): RawFrame | null => {
+    const native = NODE_NATIVE.exec(l);
+    if (native) return { file: `<${native[2].replace(/[<>]/g, '')}>`, line: 0, fn: native[1] };
+    const m = NODE_FRAME.exec(l) ?? VITEST_FRAME.exec(l);
+    return m ? pathFrame(m[2], m[3], m[1] ?? '') : null;
+  };
+  if (!frameAt(lines[i]) || JVM_FRAME.test(lines[i])) return null;
+  // The header is the closest non-frame line above
+  let h = i - 1;
+  while (h >= 0 && !lines[h].trim()) h--;
+  const header = h >= 0 ? lines[h] : '';
+  const raw: RawFrame[] = [];
+  let j = i;
+  for (; j < lines.length; j++) {
+    const frame = frameAt(lines[j]);
+    if (!frame) break;
+    raw.push(frame);
+  }
+  return [toTrace('node', header, raw, ctx, inRepoPath), j];
+}
+
+function parsePython(lines: string[], i: number, ctx: LinkContext): [StackTrace, number] | null {
+  if (!/^\s*Traceback \(most recent call last\):/.test(lines[i])) return null;
+  const raw: RawFrame[] = [];
+  let j = i + 1;
+  for (; j < lines.length; j++) {
+    const m = PY_FRAME.exec(lines[j]);
+    if (m) raw.push(pathFrame(m[1], m[2], m[3] ?? ''));
+    // Source lines are indented under each frame; the exception line is not
+    else if (!/^\s/.test(lines[j]) && lines[j].trim()) break;
+  }
+  const header = j < lines.length ? lines[j] : '';
+  return [toTrace('python', header, raw.reverse(), ctx, inRepoPath), j + 1];
+}
+
+function parseJvm(lines: string[], i: number, ctx: LinkContext): [StackTrace, number] | null {
+  if (!JVM_FRAME.test(lines[i])) return null;
+  let h = i - 1;
+  while (h >= 0 && !lines[h].trim()) h--;
+  const header = h >= 0 ? lines[h] : '';
+  const raw: RawFrame[] = [];
+  let j = i;
+  for (; j < lines.length; j++) {
+    const m = JVM_FRAME.exec(lines[j]);
+    if (!m) {
+      // `... 12 more` closes the trace; `Caused by:` starts the next one
+      if (/^\s*\.\.\. \d+ more/.test(lines[j])) j++;
+      break;
+    }
+    // Drop the Java 9+ module prefix (`java.base/`, `app//`)
+    const cls = m[1].replace(/^.*\//, '');
+    raw.push({ file: m[3], line: Number(m[4] ?? 0), fn: `${cls}.${m[2]}` });
+  }
+  return [toTrace('jvm', header, raw, ctx, (f) => !JVM_RUNTIME.test(f.fn)), j];
+}
+
+function parseGo(lines: string[], i: number, ctx: LinkContext): [StackTrace, number] | null {
+  if (!/^panic: /.test(lines[i])) return null;
+  const raw: RawFrame[] = [];
+  let j = i + 1;
+  while (j < lines.length && !/^goroutine \d+ \[/.test(lines[j])) {
+    if (j - i > 5) return null;
+    j++;
+  }
+  for (j++; j + 1 < lines.length; j += 2) {
+    const file = GO_FILE.exec(lines[j + 1]);
+    if (!file || /^\s/.test(lines[j])) break;
+    raw.push(pathFrame(file[1], file[2], lines[j].replace(/\([^()]*\)$/, '')));
+  }
+  // GOROOT frames (runtime, testing) are absolute paths outside the checkout
+  return [toTrace('go', lines[i], raw, ctx, inRepoPath), j];
+}
+
+const PARSERS = [parsePython, parseGo, parseJvm, parseNode];
+
+/**
+ * Find Node, Python, JVM and Go stack traces in log lines. Frames inside the
+ * repository are linked to the blob at the run's sha; dependency and runtime
+ * frames are only counted.
+ */
+export function parseStackTraces(lines: string[], ctx: LinkContext): StackTrace[] {
+  const out: StackTrace[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i < lines.length && out.length < MAX_TRACES; i++) {
+    for (const parse of PARSERS) {
+      const res = parse(lines, i, ctx);
+      if (!res) continue;
+      const [trace, next] = res;
+      const key = stackSignature(trace);
+      if (trace.frames.length + trace.collapsed > 0 && !seen.has(key)) {
+        seen.add(key);
+        out.push(trace);
+      }
+      i = Math.max(i, next - 1);
+      break;
+    }
+  }
+  return out;
+}
+
+function stackSignature(trace: StackTrace): string {
+  // Exception type only: messages often carry ids, values or temp paths
+  const type = trace.header.split(':')[0].trim();
+  const frames = trace.frames
+    .slice(0, SIGNATURE_FRAMES)
+    .map((f) => (f.fn ? `${f.file} ${f.fn}` : f.file));
+  return ['stack', type, ...frames].join(' | ');
+}
+
+/**
+ * One line per trace: exception type plus the top in-repo frames by file and
+ * function. Line numbers are left out so unrelated edits don't fork issues.
+ * Traces without in-repo frames are skipped.
+ */
+export function stackSignatures(traces: StackTrace[]): string[] {
+  return Array.from(
+    new Set(traces.filter((t) => t.frames.length > 0).map((t) => stackSignature(t)))
+  );
+}
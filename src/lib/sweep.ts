@@ -0,0 +1,144 @@
+import * as github from '@actions/github';
+import { readMetadata, sourceRepository } from './issue-metadata';
+import { Issue, IssueTarget } from './issues';
+import { readTracking, trackedRepository } from './tracking';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export type StaleReason = 'workflow-removed' | 'inactive';
+
+export interface StaleIssue {
+  issue: Issue;
+  workflow: string;
+  lastSeen: string;
+  reason: StaleReason;
+}
+
+export interface SweepOptions {
+  /** Days without a recurrence before an issue is stale. */
+  days: number;
+  /** Label added to stale issues; empty adds none. */
+  label: string;
+  /** Comment posted on stale issues; empty uses a generated one. */
+  comment: string;
+  close: boolean;
+}
+
+const TITLE_WORKFLOW = /^\[(.+?)\] failed/;
+
+/** Names and paths of the workflows that still exist in `repo`. */
+export async function listWorkflowNames(octokit: Octokit, repo: IssueTarget): Promise<Set<string>> {
+  const workflows = await octokit.paginate(octokit.rest.actions.listRepoWorkflows, {
+    ...repo,
+    per_page: 100,
+  });
+  return new Set(workflows.flatMap((w) => [w.name, w.path]));
+}
+
+/**
+ * Open failure issues of `repository` whose workflow no longer exists in
+ * `workflows`, or with no recurrence for `days`. Last seen comes from the
+ * metadata block, else the last update; the workflow from the metadata, else
+ * the `[workflow] failed` title. Issues with neither were not generated by
+ * the action and are left alone. Tracking issues are only stale once their
+ * workflow is gone.
+ */
+export function findStaleIssues(
+  issues: Issue[],
+  repository: string,
+  workflows: Set<string>,
+  now: string,
+  days: number
+): StaleIssue[] {
+  const cutoff = Date.parse(now) - days * 86_400_000;
+  const stale: StaleIssue[] = [];
+  for (const issue of issues) {
+    const meta = readMetadata(issue.body);
+    const tracking = readTracking(issue.body);
+    const source = tracking ? trackedRepository(issue, tracking) : sourceRepository(issue, meta);
+    if (source !== repository) continue;
+    const workflow = meta?.workflow ?? tracking?.workflow ?? TITLE_WORKFLOW.exec(issue.title)?.[1];
+    if (!workflow) continue;
+    const lastSeen = meta?.lastSeen ?? issue.updated_at;
+    if (!workflows.has(workflow)) {
+      stale.push({ issue, workflow, lastSeen, reason: 'workflow-removed' });
+    } else if (!tracking && days > 0 && Date.parse(lastSeen) < cutoff) {
+      stale.push({ issue, workflow, lastSeen, reason: 'inactive' });
+    }
+  }
+  return stale;
+}
+
+export function staleComment(stale: StaleIssue, options: SweepOptions): string {
+  if (options.comment) return options.comment;
+  const why =
+    stale.reason === 'workflow-removed'
+      ? `workflow \`${stale.workflow}\` no longer exists (deleted or renamed)`
+      : `no recurrence for ${options.days} day(s), last seen ${stale.lastSeen}`;
+  return `Stale: ${why}.${options.close ? ' Closing; a new failure will reopen or recreate it.' : ''}`;
+}
+
+/** Label, comment and (optionally) close one stale issue. */
+export async function sweepIssue(
+  octokit: Octokit,
+  target: IssueTarget,
+  stale: StaleIssue,
+  options: SweepOptions
+): Promise<void> {
+  const issue_number = stale.issue.number;
+  if (options.label) {
+    await octokit.rest.issues.addLabels({ ...target, issue_number, labels: [options.label] });
+  }
+  await octokit.rest.issues.createComment({
+    ...target,
+    issue_number,
+    body: staleComment(stale, options),
+  });
+  if (options.close) {
+    await octokit.rest.issues.update({
+      ...target,
+      issue_number,
+      state: 'closed',
+      state_reason: 'not_planned',
+    });
+  }
+}
+
+/**
+ * sweep: the stale issues of `repository` among `issues`; unless `dryRun`,
+ * each is labelled, commented on and optionally closed.
+ */
+export async function sweepStaleIssues(
+  octokit: Octokit,
+  target: IssueTarget,
+  issues: Issue[],
+  repository: string,
+  workflows: Set<string>,
+  now: string,
+  options: SweepOptions,
+  dryRun: boolean
+): Promise<StaleIssue[]> {
+  const stale = findStaleIssues(issues, repository, workflows, now, options.days);
+  if (!dryRun) for (const s of stale) await sweepIssue(octokit, target, s, options);
+  return stale;
+}
+
+/** Job summary table of the stale issues and what was (or would be) done. */
+export function sweepReport(stale: StaleIssue[], options: SweepOptions, dryRun: boolean): string {
+  const actions = [
+    options.label && `label \`${options.label}\``,
+    'comment',
+    options.close && 'close',
+  ].filter(Boolean);
+  const out = [
+    `### Stale issue sweep${dryRun ? ' (dry run)' : ''}`,
+    '',
+    `${stale.length} stale issue(s); ${dryRun ? 'would' : 'did'}: ${actions.join(', ')}.`,
+  ];
+  if (!stale.length) return out.join('\n');
+  out.push('', '| Issue | Workflow | Last seen | Reason |', '| --- | --- | --- | --- |');
+  for (const s of stale) {
+    out.push(`| #${s.issue.number} | ${s.workflow || '?'} | ${s.lastSeen} | ${s.reason} |`);
+  }
+  return out.join('\n');
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import { findFiles } from './files';
+import { tableCell } from './markdown';
+
+export interface TerraformDiagnostic {
+  severity: 'error' | 'warning';
+  summary: string;
+  detail: string;
+  file: string;
+  /** `file:line:col-line:col` for templates; empty when Terraform gave no range. */
+  range: string;
+}
+
+export interface TerraformResourceChange {
+  address: string;
+  action: 'delete' | 'replace';
+}
+
+export interface TerraformSummary {
+  files: string[];
+  diagnostics: TerraformDiagnostic[];
+  /** Resources the plan would destroy or replace. */
+  destructive: TerraformResourceChange[];
+}
+
+const MAX_TERRAFORM_FILES = 50;
+
+// The parts of Terraform's machine-readable output read here
+interface TerraformRangeJson {
+  filename?: string;
+  start?: { line?: number; column?: number };
+  end?: { line?: number; column?: number };
+}
+
+interface TerraformDiagnosticJson {
+  severity?: string;
+  summary?: string;
+  detail?: string;
+  range?: TerraformRangeJson;
+}
+
+interface TerraformResourceChangeJson {
+  address: string;
+  change?: { actions?: string[] };
+}
+
+/** A `validate`/`show` document or one message of the `plan -json` stream. */
+interface TerraformDocJson {
+  diagnostics?: TerraformDiagnosticJson[];
+  resource_changes?: TerraformResourceChangeJson[];
+  type?: string;
+  diagnostic?: TerraformDiagnosticJson;
+  change?: { action?: string; resource?: { addr?: string } };
+  '@level'?: string;
+  format_version?: string;
+}
+
+function diagnosticOf(d: TerraformDiagnosticJson): TerraformDiagnostic {
+  const r = d.range;
+  const range = r?.filename
+    ? `${r.filename}:${r.start?.line ?? 0}:${r.start?.column ?? 0}-${r.end?.line ?? 0}:${r.end?.column ?? 0}`
+    : '';
+  return {
+    severity: d.severity === 'warning' ? 'warning' : 'error',
+    summary: tableCell(String(d.summary ?? '')),
+    detail: tableCell(String(d.detail ?? '')),
+    file: r?.filename ?? '',
+    range,
+  };
+}
+
+function changesOf(plan: TerraformDocJson): TerraformResourceChange[] {
+  return (plan.resource_changes ?? []).flatMap((rc): TerraformResourceChange[] => {
+    const actions = rc.change?.actions ?? [];
+    if (actions.includes('delete') && actions.includes('create')) {
+      return [{ address: rc.address, action: 'replace' }];
+    }
+    if (actions.includes('delete')) return [{ address: rc.address, action: 'delete' }];
+    return [];
+  });
+}
+
+/**
+ * Parse `terraform validate -json`, `terraform show -json <plan>` or the
+ * newline-delimited `terraform plan -json` stream into one summary.
+ */
+export function parseTerraformJson(text: string): Omit<TerraformSummary, 'files'> {
+  const trimmed = text.trim();
+  let docs: TerraformDocJson[];
+  try {
+    docs = [JSON.parse(trimmed)];
+  } catch {
+    // Machine-readable UI stream: one JSON message per line
+    docs = trimmed.split(/\r?\n/).map((l) => JSON.parse(l));
+  }
+
+  const out: Omit<TerraformSummary, 'files'> = { diagnostics: [], destructive: [] };
+  let recognised = false;
+  for (const doc of docs) {
+    if (Array.isArray(doc.diagnostics)) {
+      recognised = true;
+      out.diagnostics.push(...doc.diagnostics.map(diagnosticOf));
+    }
+    if (Array.isArray(doc.resource_changes)) {
+      recognised = true;
+      out.destructive.push(...changesOf(doc));
+    }
+    if (doc.type === 'diagnostic' && doc.diagnostic) {
+      recognised = true;
+      out.diagnostics.push(diagnosticOf(doc.diagnostic));
+    }
+    const address = doc.change?.resource?.addr;
+    if (doc.type === 'planned_change' && address) {
+      recognised = true;
+      const action = doc.change?.action;
+      if (action === 'delete' || action === 'replace') out.destructive.push({ address, action });
+    }
+    if (doc['@level'] !== undefined || doc.format_version !== undefined) recognised = true;
+  }
+  if (!recognised) throw new Error('Not Terraform JSON output');
+  return out;
+}
+
+/**
+ * Resolve newline- or comma-separated globs and merge every Terraform JSON file.
+ * Returns null when no file matched; unparsable files are skipped.
+ */
+export async function loadTerraformFiles(
+  patterns: string,
+  onSkip: (file: string, err: unknown) => void = () => undefined
+): Promise<TerraformSummary | null> {
+  const files = await findFiles(patterns, MAX_TERRAFORM_FILES);
+  const summary: TerraformSummary = { files: [], diagnostics: [], destructive: [] };
+  for (const file of files) {
+    try {
+      const parsed = parseTerraformJson(fs.readFileSync(file, 'utf8'));
+      summary.files.push(file);
+      summary.diagnostics.push(...parsed.diagnostics);
+      summary.destructive.push(...parsed.destructive);
+    } catch (err) {
+      onSkip(file, err);
+    }
+  }
+  return summary.files.length ? summary : null;
+}
+
+/**
+ * Error diagnostic summaries (with their file) when there are any, otherwise the
+ * destructive plan changes. Validation failures and drift therefore never share
+ * a fingerprint.
+ */
+export function terraformSignatures(summary: TerraformSummary): string[] {
+  const errors = summary.diagnostics.filter((d) => d.severity === 'error');
+  const lines = errors.length
+    ? errors.map((d) => `terraform ${d.summary}${d.file ? ` (${d.file})` : ''}`)
+    : summary.destructive.map((c) => `terraform ${c.action} ${c.address}`);
+  return Array.from(new Set(lines)).sort();
+}
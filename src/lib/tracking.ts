@@ -0,0 +1,185 @@
+import * as github from '@actions/github';
+import { z } from 'zod';
+import { Issue, issueRepository, IssueTarget, listFailureIssues } from './issues';
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+const MODES = ['none', 'task-list', 'sub-issues'] as const;
+
+export type TrackingMode = (typeof MODES)[number];
+
+/** Parse the `tracking-issue` input; empty is `none`. Throws on unknown modes. */
+export function parseTrackingMode(raw: string): TrackingMode {
+  const mode = raw.trim() || 'none';
+  if (!(MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Unknown tracking-issue mode "${mode}" (expected ${MODES.join(', ')})`);
+  }
+  return mode as TrackingMode;
+}
+
+const TrackingSchema = z.object({
+  /** `owner/repo` of the workflow; unset in blocks written before it was recorded. */
+  repository: z.string().optional(),
+  workflow: z.string(),
+  children: z.array(z.object({ number: z.number().int(), title: z.string(), open: z.boolean() })),
+});
+
+export type TrackingState = z.infer<typeof TrackingSchema>;
+
+export interface TrackedChild {
+  number: number;
+  title: string;
+  open: boolean;
+  /** Issue id, needed to link it as a GitHub sub-issue. */
+  id?: number;
+}
+
+const BLOCK = /<!--\s*wic:tracking\s*(\{[\s\S]*?\})\s*-->/;
+
+/** The tracking block of a parent issue body; null for any other issue. */
+export function readTracking(body?: string | null): TrackingState | null {
+  const m = BLOCK.exec(body ?? '');
+  if (!m) return null;
+  try {
+    return TrackingSchema.parse(JSON.parse(m[1]));
+  } catch {
+    return null;
+  }
+}
+
+export function trackingTitle(workflow: string): string {
+  return `[${workflow}] failures (tracking)`;
+}
+
+/** Parent body: a task list of the child issues, open ones first, and the block. */
+export function renderTracking(state: TrackingState): string {
+  const open = state.children.filter((c) => c.open);
+  const closed = state.children.filter((c) => !c.open);
+  const prefix = `[${state.workflow}] failed — `;
+  const item = (c: TrackingState['children'][number]) =>
+    `- [${c.open ? ' ' : 'x'}] #${c.number} ${c.title.replace(prefix, '')}`;
+  const json = JSON.stringify(state).replace(/>/g, '\\u003e');
+  return [
+    `Failure issues of workflow \`${state.workflow}\`: ${open.length} open, ${closed.length} closed. Kept up to date by the action.`,
+    '',
+    ...[...open, ...closed].map(item),
+    '',
+    `<!-- wic:tracking ${json} -->`,
+    '',
+  ].join('\n');
+}
+
+/** Record children opening or closing; others keep their entry. */
+export function withChildren(state: TrackingState, children: TrackedChild[]): TrackingState {
+  const byNumber = new Map(state.children.map((c) => [c.number, c]));
+  for (const { number, title, open } of children) byNumber.set(number, { number, title, open });
+  return {
+    ...state,
+    children: Array.from(byNumber.values()).sort((a, b) => a.number - b.number),
+  };
+}
+
+/** Repository whose workflow a tracking issue lists: recorded, else the one it lives in. */
+export function trackedRepository(issue: Issue, state: TrackingState): string {
+  return state.repository ?? issueRepository(issue);
+}
+
+/**
+ * The open tracking issue of `repository`'s `workflow` among `issues`; the
+ * lowest-numbered one if several runs created one at the same time.
+ */
+export function findTrackingIssue(
+  issues: Issue[],
+  repository: string,
+  workflow: string
+): Issue | null {
+  return issues.reduce<Issue | null>((found, issue) => {
+    const state = readTracking(issue.body);
+    if (state?.workflow !== workflow || trackedRepository(issue, state) !== repository) {
+      return found;
+    }
+    return found && found.number < issue.number ? found : issue;
+  }, null);
+}
+
+// A parent created concurrently was updated moments ago: the first page holds it
+const RACE_LOOKUP_LIMIT = 100;
+
+/**
+ * Open the tracking issue of `repository`'s `workflow`. Matrix legs failing
+ * together each open one; every run then re-lists and agrees on the
+ * lowest-numbered, and closes its own as a duplicate if it lost. Returns the
+ * parent number.
+ */
+async function createTrackingIssue(
+  octokit: Octokit,
+  target: IssueTarget,
+  label: string,
+  issues: Issue[],
+  repository: string,
+  workflow: string
+): Promise<number> {
+  const { data: created } = await octokit.rest.issues.create({
+    ...target,
+    title: trackingTitle(workflow),
+    body: renderTracking({ repository, workflow, children: [] }),
+    labels: [label],
+  });
+  const listed = await listFailureIssues(octokit, target, label, 'open', RACE_LOOKUP_LIMIT);
+  const winner = findTrackingIssue([...issues, ...listed, created], repository, workflow);
+  if (!winner || winner.number === created.number) return created.number;
+  await octokit.rest.issues.createComment({
+    ...target,
+    issue_number: created.number,
+    body: `Duplicate of #${winner.number}: opened concurrently for the same workflow.`,
+  });
+  await octokit.rest.issues.update({
+    ...target,
+    issue_number: created.number,
+    state: 'closed',
+    state_reason: 'not_planned',
+  });
+  return winner.number;
+}
+
+/**
+ * Bring the tracking issue of `repository`'s `workflow` up to date with `children`,
+ * creating it on first use. The parent is re-read before writing, as other
+ * runs may have changed it since `issues` was listed. In `sub-issues` mode,
+ * newly tracked open children are also linked as GitHub sub-issues. Returns
+ * the parent number.
+ */
+export async function trackChildren(
+  octokit: Octokit,
+  target: IssueTarget,
+  label: string,
+  issues: Issue[],
+  repository: string,
+  workflow: string,
+  children: TrackedChild[],
+  mode: TrackingMode
+): Promise<number> {
+  const number =
+    findTrackingIssue(issues, repository, workflow)?.number ??
+    (await createTrackingIssue(octokit, target, label, issues, repository, workflow));
+
+  const { data: parent } = await octokit.rest.issues.get({ ...target, issue_number: number });
+  const state = { ...(readTracking(parent.body) ?? { workflow, children: [] }), repository };
+  const known = new Set(state.children.map((c) => c.number));
+  const body = renderTracking(withChildren(state, children));
+  if (body !== parent.body) {
+    await octokit.rest.issues.update({ ...target, issue_number: number, body });
+  }
+
+  if (mode === 'sub-issues') {
+    for (const child of children) {
+      if (!child.open || !child.id || known.has(child.number)) continue;
+      await octokit.request('POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues', {
+        ...target,
+        issue_number: number,
+        sub_issue_id: child.id,
+      });
+    }
+  }
+  return number;
+}
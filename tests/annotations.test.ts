@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { annotationSignatures, fetchFailureAnnotations } from '../src/lib/annotations';
+
+const ctx = {
+  owner: 'acme',
+  repo: 'app',
+  repository: 'acme/app',
+  serverUrl: 'https://github.com',
+  sha: 'abc123',
+  workflow: { runId: '42' },
+};
+
+const annotations = [
+  {
+    path: 'src/a.ts',
+    start_line: 3,
+    end_line: 5,
+    annotation_level: 'failure',
+    title: 'TS2322',
+    message: "Type 'string' is not assignable to type 'number'.\nmore detail",
+  },
+  { path: 'src/b.ts', start_line: 1, end_line: 1, annotation_level: 'warning', message: 'w' },
+  {
+    path: '.github',
+    start_line: 1,
+    end_line: 1,
+    annotation_level: 'failure',
+    title: null,
+    message: 'Process completed with exit code 1.',
+  },
+];
+
+function fakeOctokit(jobs: { id: number; name: string; conclusion: string | null }[]) {
+  const calls: number[] = [];
+  const octokit = {
+    paginate: async (_fn: unknown, params: { check_run_id: number }) => {
+      calls.push(params.check_run_id);
+      return annotations;
+    },
+    rest: {
+      actions: { listJobsForWorkflowRun: async () => ({ data: { jobs } }) },
+      checks: { listAnnotations: () => undefined },
+    },
+  } as any;
+  return { octokit, calls };
+}
+
+describe('fetchFailureAnnotations', () => {
+  it('keeps failure annotations of failed jobs with blob links', async () => {
+    const { octokit, calls } = fakeOctokit([
+      { id: 1, name: 'lint', conclusion: 'success' },
+      { id: 2, name: 'build', conclusion: 'failure' },
+    ]);
+    const res = await fetchFailureAnnotations(octokit, ctx);
+    expect(calls).toEqual([2]);
+    expect(res).toHaveLength(2);
+    expect(res[0]).toMatchObject({
+      jobName: 'build',
+      location: 'src/a.ts:3',
+      url: 'https://github.com/acme/app/blob/abc123/src/a.ts#L3-L5',
+      title: 'TS2322',
+      message: "Type 'string' is not assignable to type 'number'.",
+    });
+    expect(res[1]).toMatchObject({ location: 'build', url: '', title: '' });
+  });
+
+  it('returns nothing without a run id', async () => {
+    const { octokit, calls } = fakeOctokit([{ id: 2, name: 'build', conclusion: 'failure' }]);
+    const res = await fetchFailureAnnotations(octokit, { ...ctx, workflow: { runId: '' } });
+    expect(res).toEqual([]);
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('annotationSignatures', () => {
+  it('signs by path or job and drops duplicates', async () => {
+    const { octokit } = fakeOctokit([
+      { id: 2, name: 'build', conclusion: 'failure' },
+      { id: 3, name: 'build', conclusion: 'failure' },
+    ]);
+    const res = await fetchFailureAnnotations(octokit, ctx);
+    expect(annotationSignatures(res)).toEqual([
+      "annotation src/a.ts: TS2322: Type 'string' is not assignable to type 'number'.",
+      'annotation build: Process completed with exit code 1.',
+    ]);
+  });
+});
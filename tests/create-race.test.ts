@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { raceWinner, yieldToWinner } from '../src/lib/create-race';
+import { readMetadata } from '../src/lib/issue-metadata';
+import { tagged } from './helpers/metadata';
+
+const target = { owner: 'acme', repo: 'app' };
+
+const created = (number: number, fingerprint: string, runId: string) => ({
+  number,
+  title: `[CI] failed — general — ${fingerprint}`,
+  html_url: `https://github.com/acme/app/issues/${number}`,
+  body: tagged({ fingerprint, runId, timestamp: `2024-05-01T10:00:0${runId}Z` }),
+});
+
+// Eight matrix legs created #11..#18 for the same failure; #19 is another one
+const racing = Array.from({ length: 8 }, (_, i) => created(11 + i, 'v2-abc', String(i + 1)));
+const open = [...racing, created(19, 'v2-other', '9'), created(7, 'v2-old', '0')] as any[];
+
+describe('raceWinner', () => {
+  it('gives every racing run the same lowest-numbered winner', () => {
+    for (const issue of racing) expect(raceWinner(open, issue as any, 'v2-abc').number).toBe(11);
+  });
+
+  it('keeps the created issue when it has no siblings yet', () => {
+    const mine = created(20, 'v2-new', '1') as any;
+    expect(raceWinner(open, mine, 'v2-new')).toBe(mine);
+  });
+});
+
+describe('yieldToWinner', () => {
+  it('merges occurrences into the winner and closes the loser', async () => {
+    const bodies = new Map(racing.map((i) => [i.number, i.body]));
+    const update = vi.fn(async (p: any) => {
+      if (p.body) bodies.set(p.issue_number, p.body);
+      return { data: { number: p.issue_number, body: bodies.get(p.issue_number) } };
+    });
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const octokit = {
+      rest: {
+        issues: {
+          get: async (p: any) => ({ data: { number: p.issue_number, body: bodies.get(11) } }),
+          update,
+          createComment,
+        },
+      },
+    } as any;
+
+    for (const loser of racing.slice(1)) {
+      const winner = await yieldToWinner(octokit, target, loser as any, racing[0] as any);
+      expect(winner.number).toBe(11);
+    }
+
+    expect(readMetadata(bodies.get(11))).toMatchObject({
+      occurrences: 8,
+      runIds: ['1', '2', '3', '4', '5', '6', '7', '8'],
+      firstSeen: '2024-05-01T10:00:01Z',
+      lastSeen: '2024-05-01T10:00:08Z',
+    });
+    expect(update).toHaveBeenCalledWith({
+      ...target,
+      issue_number: 18,
+      state: 'closed',
+      state_reason: 'not_planned',
+    });
+    expect(createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        issue_number: 12,
+        body: expect.stringMatching(/^Duplicate of #11/),
+      })
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { parseErrors, selectParsers, toSignatures } from '../src/lib/error-parsers';
+
+const lines = (s: string) => s.split('\n');
+
+describe('error parsers', () => {
+  it('parses tsc diagnostics in both output formats', () => {
+    const errs = parseErrors(
+      lines(
+        [
+          "src/a.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+          "src/b.ts:3:1 - error TS2304: Cannot find name 'foo'.",
+        ].join('\n')
+      ),
+      'code-quality'
+    );
+    expect(errs).toHaveLength(2);
+    expect(errs[0]).toMatchObject({
+      parser: 'tsc',
+      code: 'TS2322',
+      file: 'src/a.ts',
+      line: 10,
+      column: 5,
+    });
+    expect(errs[1].signature).toBe("tsc TS2304 src/b.ts: Cannot find name 'foo'.");
+  });
+
+  it('parses ESLint stylish output and strips the runner workspace', () => {
+    const errs = parseErrors(
+      lines(
+        [
+          '/home/runner/work/app/app/src/index.ts',
+          "  12:7  error  'x' is assigned a value but never used  @typescript-eslint/no-unused-vars",
+          '  14:1  warning  Unexpected console statement  no-console',
+          '',
+          '✖ 2 problems (1 error, 1 warning)',
+        ].join('\n')
+      ),
+      'code-quality'
+    );
+    expect(errs[0]).toMatchObject({
+      parser: 'eslint',
+      file: 'src/index.ts',
+      line: 12,
+      code: '@typescript-eslint/no-unused-vars',
+    });
+    expect(errs[1].severity).toBe('warning');
+    expect(toSignatures(errs)).toEqual([
+      "eslint @typescript-eslint/no-unused-vars src/index.ts: 'x' is assigned a value but never used",
+    ]);
+  });
+
+  it('parses ESLint compact output', () => {
+    const [err] = parseErrors(
+      ['src/a.ts: line 3, col 9, Error - Missing semicolon. (semi)'],
+      'code-quality'
+    );
+    expect(err).toMatchObject({ file: 'src/a.ts', line: 3, column: 9, code: 'semi' });
+  });
+
+  it('parses Vitest and Jest failures', () => {
+    const vitest = parseErrors([' FAIL  tests/a.test.ts > math > adds'], 'code-quality');
+    expect(vitest[0]).toMatchObject({
+      parser: 'js-test',
+      file: 'tests/a.test.ts',
+      message: 'math > adds',
+    });
+
+    const jest = parseErrors(
+      lines(
+        ' FAIL  src/sum.test.js\n  ● sum › adds numbers\n\n    expect(received).toBe(expected)'
+      ),
+      'code-quality'
+    );
+    expect(jest[0]).toMatchObject({ file: 'src/sum.test.js', message: 'sum > adds numbers' });
+  });
+
+  it('parses pytest summaries with the failing line', () => {
+    const [err] = parseErrors(
+      lines(
+        [
+          '=================================== FAILURES ===================================',
+          'tests/test_math.py:7: AssertionError',
+          '=========================== short test summary info ============================',
+          'FAILED tests/test_math.py::test_add - assert 3 == 4',
+        ].join('\n')
+      ),
+      'general'
+    );
+    expect(err).toMatchObject({
+      parser: 'pytest',
+      file: 'tests/test_math.py',
+      line: 7,
+      code: 'FAILED',
+    });
+    expect(err.message).toBe('test_add - assert 3 == 4');
+  });
+
+  it('parses go test failures and build errors', () => {
+    const errs = parseErrors(
+      lines(
+        '--- FAIL: TestAdd (0.00s)\n    add_test.go:12: expected 3, got 4\n./main.go:10:2: undefined: foo'
+      ),
+      'code-quality'
+    );
+    expect(errs.map((e) => [e.code, e.file, e.line])).toEqual([
+      ['TestAdd', 'add_test.go', 12],
+      [undefined, 'main.go', 10],
+    ]);
+  });
+
+  it('parses cargo errors with their location', () => {
+    const errs = parseErrors(
+      lines(
+        [
+          'error[E0425]: cannot find value `x` in this scope',
+          ' --> src/main.rs:2:13',
+          'error: could not compile `app` due to previous error',
+          'test tests::it_works ... FAILED',
+        ].join('\n')
+      ),
+      'code-quality'
+    );
+    expect(errs[0]).toMatchObject({ code: 'E0425', file: 'src/main.rs', line: 2, column: 13 });
+    expect(errs[1]).toMatchObject({ code: 'test', message: 'tests::it_works' });
+    expect(errs).toHaveLength(2);
+  });
+
+  it('parses Maven, Gradle/Kotlin and javac output', () => {
+    const errs = parseErrors(
+      lines(
+        [
+          '[ERROR] /work/src/main/java/App.java:[10,5] cannot find symbol',
+          'e: file:///work/src/Main.kt: (3, 7): Unresolved reference: foo',
+          'AppTest > addsNumbers() FAILED',
+        ].join('\n')
+      ),
+      'code-quality'
+    );
+    expect(errs.map((e) => e.parser)).toEqual(['jvm', 'jvm', 'jvm']);
+    expect(errs[0]).toMatchObject({ file: '/work/src/main/java/App.java', line: 10, column: 5 });
+    expect(errs[1]).toMatchObject({ file: '/work/src/Main.kt', line: 3 });
+    expect(errs[2].message).toBe('AppTest > addsNumbers()');
+  });
+
+  it('collapses npm ERR! blocks into one signature', () => {
+    const errs = parseErrors(
+      lines(
+        [
+          'npm ERR! code E404',
+          'npm ERR! 404 Not Found - GET https://registry.npmjs.org/nope - Not found',
+          'npm ERR! A complete log of this run can be found in: /tmp/x.log',
+        ].join('\n')
+      ),
+      'deployment'
+    );
+    expect(toSignatures(errs)).toEqual([
+      'npm E404 404 Not Found - GET https://registry.npmjs.org/nope - Not found',
+    ]);
+  });
+
+  it('prefers parsers registered for the category and falls back to content', () => {
+    const log = lines("npm ERR! code ELIFECYCLE\nsrc/a.ts(1,1): error TS1005: ';' expected.");
+    expect(selectParsers('code-quality', log).map((p) => p.id)).toEqual(['tsc', 'npm']);
+    expect(selectParsers('deployment', log).map((p) => p.id)).toEqual(['npm']);
+    expect(selectParsers('security-scan', log).map((p) => p.id)).toEqual(['tsc', 'npm']);
+  });
+
+  it('returns nothing for unrecognised output', () => {
+    expect(parseErrors(['hello world'], 'general')).toEqual([]);
+  });
+});
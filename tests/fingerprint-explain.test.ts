@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { explainFingerprint, renderExplanation } from '../src/lib/fingerprint-explain';
+import { parseFingerprintRules } from '../src/lib/fingerprint-rules';
+import { computeFingerprints } from '../src/lib/fingerprint-versions';
+
+const rules = parseFingerprintRules({
+  normalize: [
+    { pattern: 'port \\d+', replacement: 'port <n>' },
+    { pattern: 'unused', replacement: '' },
+  ],
+  ignore: ['^Retrying'],
+});
+const errorSignatures = ['Retrying in 5s', 'connect ECONNREFUSED on port 5432'];
+const input = {
+  repository: 'acme/app',
+  workflow: 'CI',
+  job: 'test {branch=main}',
+  category: 'general',
+  errorSignatures,
+};
+const redact = (text: string) => text.replace(/ghp_\w+/g, '***');
+
+function explain(errors = errorSignatures) {
+  const i = { ...input, errorSignatures: errors };
+  return explainFingerprint({
+    input: i,
+    scope: ['branch'],
+    fingerprints: computeFingerprints(i, rules),
+    redact,
+  });
+}
+
+describe('explainFingerprint', () => {
+  it('lists only the steps that changed something', () => {
+    const e = explain();
+    expect(e.steps.map((s) => s.step)).toEqual([
+      'ignore /^Retrying/ dropped 1',
+      'normalize /port \\d+/ → "port <n>"',
+    ]);
+    expect(e.steps[1].lines).toEqual(['connect ECONNREFUSED on port <n>']);
+  });
+
+  it('includes the built-in number and SHA stripping', () => {
+    const e = explain(['build 42 failed at deadbeef1']);
+    expect(e.steps.map((s) => s.step)).toEqual(['strip SHAs', 'strip numbers']);
+    expect(e.canonical.split('\n').pop()).toBe('build <n> failed at <sha>');
+  });
+
+  it('matches the fingerprint it explains', () => {
+    const e = explain();
+    expect(e.canonical).toBe(
+      'acme/app\nCI\ntest {branch=main}\ngeneral\nconnect ECONNREFUSED on port <n>'
+    );
+    expect(e.fingerprint).toBe(`v${e.version}-${e.hash}`);
+    expect(e.inputs.scope).toEqual(['branch']);
+  });
+
+  it('redacts the error lines', () => {
+    const e = explain(['auth failed for ghp_secret']);
+    expect(e.inputs.errorSignatures).toEqual(['auth failed for ***']);
+    expect(e.canonical).not.toContain('ghp_secret');
+    expect(renderExplanation(e)).not.toContain('ghp_secret');
+  });
+});
+
+describe('renderExplanation', () => {
+  it('renders a collapsible section', () => {
+    const md = renderExplanation(explain());
+    expect(md).toMatch(/^<details>\n<summary>Fingerprint <code>v\d+-[0-9a-f]+<\/code><\/summary>/);
+    expect(md).toContain('| Scope | `branch` |');
+    expect(md).toContain('**Canonical input**');
+    expect(md.trimEnd()).toMatch(/<\/details>$/);
+  });
+});
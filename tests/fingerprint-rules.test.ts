@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect } from 'vitest';
+import {
+  applyFingerprintRules,
+  loadFingerprintRules,
+  parseFingerprintRules,
+} from '../src/lib/fingerprint-rules';
+
+describe('applyFingerprintRules', () => {
+  const rules = parseFingerprintRules({
+    normalize: [
+      {
+        pattern: '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}',
+        replacement: '<uuid>',
+        flags: 'i',
+      },
+      { pattern: 'pod/[\\w-]+', replacement: 'pod/<name>' },
+    ],
+    ignore: ['^Retrying'],
+  });
+
+  it('replaces every match of each rule in order', () => {
+    expect(
+      applyFingerprintRules(
+        ['job 3F2504E0-4F89-11D3-9A0C-0305E82C3301 on pod/api-7d9f-x2k and pod/db-0'],
+        rules
+      )
+    ).toEqual(['job <uuid> on pod/<name> and pod/<name>']);
+  });
+
+  it('drops ignored lines', () => {
+    expect(applyFingerprintRules(['Retrying in 5s', 'Error: boom'], rules)).toEqual([
+      'Error: boom',
+    ]);
+  });
+});
+
+describe('parseFingerprintRules', () => {
+  it('rejects invalid patterns', () => {
+    expect(() => parseFingerprintRules({ ignore: ['('] })).toThrow();
+    expect(() => parseFingerprintRules({ normalize: [{ replacement: 'x' }] })).toThrow();
+  });
+});
+
+describe('loadFingerprintRules', () => {
+  it('reads the fingerprint section and tolerates a missing file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fp-rules-'));
+    try {
+      const file = path.join(dir, 'config.yml');
+      fs.writeFileSync(file, "failureLabel: x\nfingerprint:\n  ignore:\n    - '^warn'\n");
+      expect(loadFingerprintRules(file).ignore).toHaveLength(1);
+      expect(loadFingerprintRules(path.join(dir, 'missing.yml'))).toEqual({
+        normalize: [],
+        ignore: [],
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
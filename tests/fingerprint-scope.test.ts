@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseFingerprintScope,
+  parseMatrix,
+  scopedContext,
+  scopeValues,
+} from '../src/lib/fingerprint-scope';
+
+const ctx = {
+  branch: 'release/1.2',
+  eventName: 'push',
+  runner: { os: 'Linux', arch: 'X64' },
+  workflow: { name: 'CI', job: 'test' },
+};
+
+describe('parseFingerprintScope', () => {
+  it('accepts known dimensions and matrix keys', () => {
+    expect(parseFingerprintScope(' branch, matrix.node ,runner-os')).toEqual([
+      'branch',
+      'matrix.node',
+      'runner-os',
+    ]);
+    expect(parseFingerprintScope('')).toEqual([]);
+    expect(() => parseFingerprintScope('brnach')).toThrow('Unknown fingerprint-scope dimension');
+  });
+});
+
+describe('parseMatrix', () => {
+  it('stringifies values and rejects non-objects', () => {
+    expect(parseMatrix('{"os": "ubuntu-latest", "node": 20, "include": {"a": 1}}')).toEqual({
+      os: 'ubuntu-latest',
+      node: '20',
+      include: '{"a":1}',
+    });
+    expect(parseMatrix('')).toEqual({});
+    expect(() => parseMatrix('[1]')).toThrow('JSON object');
+  });
+});
+
+describe('scopeValues', () => {
+  const matrix = { os: 'ubuntu-latest', node: '20' };
+
+  it('reads each dimension from the context, env and matrix', () => {
+    const values = scopeValues(
+      ['event', 'branch', 'base-branch', 'runner-os', 'matrix.node'],
+      ctx,
+      matrix,
+      { GITHUB_BASE_REF: 'main' }
+    );
+    expect(values).toEqual([
+      'base-branch=main',
+      'branch=release/1.2',
+      'event=push',
+      'matrix.node=20',
+      'runner-os=Linux',
+    ]);
+    expect(scopeValues(['matrix'], ctx, matrix)).toEqual([
+      'matrix.node=20',
+      'matrix.os=ubuntu-latest',
+    ]);
+  });
+});
+
+describe('scopedContext', () => {
+  it('leaves the context alone for an empty scope', () => {
+    expect(scopedContext(ctx, [])).toBe(ctx);
+  });
+
+  it('keeps matrix legs apart only when scoped by matrix', () => {
+    const leg = (node: string) =>
+      scopedContext(ctx, scopeValues(['matrix.node'], ctx, { node })).workflow.job;
+    expect(leg('18')).toBe('test {matrix.node=18}');
+    expect(leg('18')).not.toBe(leg('20'));
+    expect(ctx.workflow.job).toBe('test');
+  });
+});
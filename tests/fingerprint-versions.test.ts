@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { computeFingerprint } from '../src/lib/fingerprint';
+import { parseFingerprintRules } from '../src/lib/fingerprint-rules';
+import {
+  ALGORITHMS,
+  computeFingerprints,
+  FINGERPRINT_VERSION,
+  FingerprintAlgorithm,
+  fingerprintVersion,
+  migrateFingerprint,
+} from '../src/lib/fingerprint-versions';
+import { findIssueByMetadata, nextMetadata, writeMetadata } from '../src/lib/issue-metadata';
+
+const rules = parseFingerprintRules({ ignore: ['^Retrying'] });
+
+const input = (errorSignatures: string[]) => ({
+  repository: 'acme/app',
+  workflow: 'CI',
+  job: 'test',
+  category: 'general',
+  errorSignatures,
+});
+
+const released = (errorSignatures: string[]) =>
+  computeFingerprint({
+    ctx: { repository: 'acme/app', workflow: { name: 'CI', job: 'test' } } as any,
+    category: 'general',
+    errorSignatures,
+  });
+
+describe('computeFingerprints', () => {
+  it('prefixes the current version and lists older ones', () => {
+    const fps = computeFingerprints(input(['Retrying in 5s', 'Error: boom']), rules);
+    expect(fps.current).toMatch(new RegExp(`^v${FINGERPRINT_VERSION}-[0-9a-f]{16}$`));
+    expect(fps.previous).toEqual([released(['Retrying in 5s', 'Error: boom'])]);
+    expect(fingerprintVersion(fps.current)).toBe(FINGERPRINT_VERSION);
+    expect(fingerprintVersion(fps.previous[0])).toBe(1);
+  });
+
+  it('keeps v1 to the released computeFingerprint() of the raw lines', () => {
+    const lines = ['Error: foo 123', 'sha abcdef1'];
+    const [v1] = computeFingerprints(input(lines), rules).previous;
+    expect(v1).toBe(released(lines));
+    expect(fingerprintVersion(v1)).toBe(1);
+  });
+
+  it('ignores numbers and SHAs in error lines', () => {
+    const a = computeFingerprints(input(['Error: foo 123', 'sha abcdef1']), rules);
+    const b = computeFingerprints(input(['Error: foo 456', 'sha 0123abcd']), rules);
+    expect(a.current).toBe(b.current);
+  });
+
+  it('hashes exactly the canonical text it reports', () => {
+    const { trace } = computeFingerprints(input(['Retrying in 5s', 'Error: foo 123']), rules);
+    expect(trace.canonical).toBe('acme/app\nCI\ntest\ngeneral\nError: foo <n>');
+    expect(trace.steps.map((s) => s.step)).toEqual([
+      'ignore /^Retrying/ dropped 1',
+      'strip numbers',
+    ]);
+  });
+
+  it('keeps older fingerprints stable when a newer algorithm changes the hash', () => {
+    const lines = ['Retrying in 5s', 'Error: boom at 0x1f'];
+    const before = computeFingerprints(input(lines), rules);
+    const v3: FingerprintAlgorithm = {
+      version: 3,
+      compute: (i) => ({ steps: [], canonical: i.errorSignatures.join('|'), hash: 'changed' }),
+    };
+    const after = computeFingerprints(input(lines), rules, [v3, ...ALGORITHMS]);
+    expect(after.current).toBe('v3-changed');
+    expect(after.previous).toEqual([before.current, ...before.previous]);
+
+    const opened = (fingerprint: string) =>
+      writeMetadata(
+        '',
+        nextMetadata(null, {
+          fingerprint,
+          fingerprintVersion: fingerprintVersion(fingerprint),
+          category: 'general',
+          workflow: 'CI',
+          job: 'test',
+          runId: '1',
+          timestamp: '2024-05-01T00:00:00Z',
+        })
+      );
+    const issues = [
+      { number: 1, title: 'v1 issue', body: opened(before.previous[0]) },
+      { number: 2, title: 'v2 issue', body: opened(before.current) },
+    ] as any[];
+    const fps = [after.current, ...after.previous];
+    expect(findIssueByMetadata(issues, fps)?.issue.number).toBe(2);
+    expect(findIssueByMetadata([issues[0]], fps)?.issue.number).toBe(1);
+  });
+});
+
+describe('migrateFingerprint', () => {
+  it('rewrites title and body in place', async () => {
+    const updates: any[] = [];
+    const octokit = {
+      rest: {
+        issues: {
+          update: async (params: any) => {
+            updates.push(params);
+            return { data: { number: params.issue_number, title: params.title } };
+          },
+        },
+      },
+    } as any;
+    await migrateFingerprint(
+      octokit,
+      { owner: 'acme', repo: 'app' },
+      { number: 7, title: '[CI] failed — general — abc123', body: 'Fingerprint: `abc123`' },
+      'abc123',
+      'v2-abc123'
+    );
+    expect(updates).toEqual([
+      {
+        owner: 'acme',
+        repo: 'app',
+        issue_number: 7,
+        title: '[CI] failed — general — v2-abc123',
+        body: 'Fingerprint: `v2-abc123`',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,34 @@
+import { nextMetadata, Occurrence, writeMetadata } from '../../src/lib/issue-metadata';
+import { FailureReport } from '../../src/lib/occurrences';
+
+/** A CI/test failure of acme/app. */
+export const occurrence = (overrides: Partial<Occurrence> = {}): Occurrence => ({
+  fingerprint: 'v2-x',
+  fingerprintVersion: 2,
+  category: 'general',
+  repository: 'acme/app',
+  workflow: 'CI',
+  job: 'test',
+  runId: '1',
+  timestamp: '2024-05-01T00:00:00Z',
+  ...overrides,
+});
+
+/** Issue body with a first-occurrence metadata block. */
+export const tagged = (overrides: Partial<Occurrence> = {}, body = 'body') =>
+  writeMetadata(body, nextMetadata(null, occurrence(overrides)));
+
+export const issueUrl = (number: number, repository = 'acme/app') =>
+  `https://github.com/${repository}/issues/${number}`;
+
+export const failureReport = (overrides: Partial<Occurrence> = {}): FailureReport => ({
+  occurrence: occurrence(overrides),
+  run: {
+    runUrl: 'https://github.com/acme/app/actions/runs/9',
+    runNumber: '42',
+    sha: 'abcdef1234567',
+    commitUrl: 'https://github.com/acme/app/commit/abcdef1234567',
+    branch: 'main',
+  },
+  rendered: 'rendered body',
+});
@@ -5,13 +5,36 @@ import * as github from '@actions/github';
 // Mock all dependencies
 vi.mock('@actions/core');
 vi.mock('@actions/github');
+vi.mock('../src/lib/annotations');
 vi.mock('../src/lib/config');
 vi.mock('../src/lib/context');
+vi.mock('../src/lib/create-race');
 vi.mock('../src/lib/category');
 vi.mock('../src/lib/fingerprint');
+vi.mock('../src/lib/fingerprint-explain');
+vi.mock('../src/lib/fingerprint-rules');
+vi.mock('../src/lib/fingerprint-scope');
+vi.mock('../src/lib/fingerprint-versions');
 vi.mock('../src/lib/render');
+vi.mock('../src/lib/issue-cap');
 vi.mock('../src/lib/issue-manager');
+vi.mock('../src/lib/issue-metadata');
+vi.mock('../src/lib/issues');
+vi.mock('../src/lib/jobs');
+vi.mock('../src/lib/junit');
+vi.mock('../src/lib/logs');
+vi.mock('../src/lib/occurrences');
+vi.mock('../src/lib/problem-matchers');
+vi.mock('../src/lib/rate-limit');
 vi.mock('../src/lib/redact');
+vi.mock('../src/lib/regression');
+vi.mock('../src/lib/resolve');
+vi.mock('../src/lib/sarif');
+vi.mock('../src/lib/similarity');
+vi.mock('../src/lib/stack-traces');
+vi.mock('../src/lib/sweep');
+vi.mock('../src/lib/terraform');
+vi.mock('../src/lib/tracking');
 
 describe('index.ts - Main Action Entry Point', () => {
   let mockGetInput: any;
@@ -159,8 +182,8 @@ describe('index.ts - Main Action Entry Point', () => {
     it('should close issue when mode is close-on-success', async () => {
       const { getConfig } = await import('../src/lib/config');
       const { buildContext } = await import('../src/lib/context');
-      const { IssueManager } = await import('../src/lib/issue-manager');
-      const { computeFingerprint } = await import('../src/lib/fingerprint');
+      const { computeFingerprints } = await import('../src/lib/fingerprint-versions');
+      const { resolveIssues } = await import('../src/lib/resolve');
       
       (getConfig as any).mockReturnValue({
         mode: 'close-on-success',
@@ -171,19 +194,17 @@ describe('index.ts - Main Action Entry Point', () => {
         workflow: { name: 'CI', job: 'test' },
       });
       
-      (computeFingerprint as any).mockReturnValue('fp-12345');
-      
-      const mockCloseIfOpen = vi.fn().mockResolvedValue(true);
-      (IssueManager as any).mockImplementation(() => ({
-        closeIfOpenByFingerprint: mockCloseIfOpen,
-      }));
+      (computeFingerprints as any).mockReturnValue({ current: 'fp-12345', previous: [] });
+      (resolveIssues as any).mockResolvedValue([{ number: 3 }, { number: 8 }]);
       
       await import('../src/index');
       await new Promise(resolve => setTimeout(resolve, 10));
       
-      expect(mockCloseIfOpen).toHaveBeenCalledWith('fp-12345');
+      expect(resolveIssues).toHaveBeenCalledTimes(1);
       expect(mockSetOutput).toHaveBeenCalledWith('fingerprint', 'fp-12345');
       expect(mockSetOutput).toHaveBeenCalledWith('resolved', 'true');
+      expect(mockSetOutput).toHaveBeenCalledWith('resolved-count', 2);
+      expect(mockSetOutput).toHaveBeenCalledWith('resolved-issues', '3,8');
     });
   });
   
@@ -316,6 +337,143 @@ describe('index.ts - Main Action Entry Point', () => {
       
       expect(mockSetOutput).toHaveBeenCalledWith('deduped', 'true');
     });
+    
+    it('should open a new issue with dedupe-strategy none', async () => {
+      const { getConfig } = await import('../src/lib/config');
+      const { buildContext } = await import('../src/lib/context');
+      const { IssueManager } = await import('../src/lib/issue-manager');
+      const { computeFingerprints } = await import('../src/lib/fingerprint-versions');
+      const { findIssueByMetadata } = await import('../src/lib/issue-metadata');
+      const { lookupFailureIssues } = await import('../src/lib/issues');
+      const { backOff } = await import('../src/lib/rate-limit');
+      
+      (getConfig as any).mockReturnValue({
+        mode: 'create',
+        category: 'general',
+        dedupeStrategy: 'none',
+      });
+      
+      (buildContext as any).mockReturnValue({
+        workflow: { name: 'CI', job: 'test' },
+      });
+      
+      const openIssue = { number: 10, title: '[CI] failed — general — fp-12345' };
+      (computeFingerprints as any).mockReturnValue({ current: 'fp-12345', previous: [] });
+      (lookupFailureIssues as any).mockResolvedValue([openIssue]);
+      (findIssueByMetadata as any).mockReturnValue({ issue: openIssue, metadata: {} });
+      
+      const mockCreateOrUpdate = vi.fn().mockResolvedValue({
+        number: 43,
+        html_url: 'https://github.com/test/repo/issues/43',
+      });
+      
+      (IssueManager as any).mockImplementation(() => ({
+        loadTemplate: vi.fn().mockResolvedValue('template'),
+        createOrUpdate: mockCreateOrUpdate,
+      }));
+      
+      await import('../src/index');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      
+      expect(findIssueByMetadata).not.toHaveBeenCalled();
+      expect(backOff).not.toHaveBeenCalled();
+      expect(mockCreateOrUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ existing: null })
+      );
+      expect(mockSetOutput).toHaveBeenCalledWith('regressed', 'false');
+      expect(mockSetOutput).not.toHaveBeenCalledWith('rate-limited', 'true');
+      expect(mockSetOutput).toHaveBeenCalledWith('deduped', 'false');
+    });
+  });
+  
+  describe('Fingerprint Explain', () => {
+    it('should still report when the job summary cannot be written', async () => {
+      const { getConfig } = await import('../src/lib/config');
+      const { IssueManager } = await import('../src/lib/issue-manager');
+      const { computeFingerprints } = await import('../src/lib/fingerprint-versions');
+      
+      const mockWarning = vi.fn();
+      (core as any).warning = mockWarning;
+      (core as any).summary = {
+        addRaw: vi.fn().mockReturnValue({
+          write: vi.fn().mockRejectedValue(new Error('Unable to find environment variable for $GITHUB_STEP_SUMMARY')),
+        }),
+      };
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          'github-token': 'test-token',
+          'fingerprint-explain': 'true',
+        };
+        return inputs[name] || '';
+      });
+      
+      (getConfig as any).mockReturnValue({
+        mode: 'create',
+        category: 'general',
+      });
+      (computeFingerprints as any).mockReturnValue({ current: 'fp-12345', previous: [] });
+      
+      const mockCreateOrUpdate = vi.fn().mockResolvedValue({
+        number: 42,
+        html_url: 'https://github.com/test/repo/issues/42',
+      });
+      (IssueManager as any).mockImplementation(() => ({
+        loadTemplate: vi.fn().mockResolvedValue('template'),
+        createOrUpdate: mockCreateOrUpdate,
+      }));
+      
+      await import('../src/index');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      
+      expect(mockWarning).toHaveBeenCalledWith(
+        expect.stringContaining('Could not write the fingerprint explanation summary')
+      );
+      expect(mockCreateOrUpdate).toHaveBeenCalled();
+      expect(mockSetFailed).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('Terraform', () => {
+    it('should keep log signatures when terraform output has only warnings', async () => {
+      const { getConfig } = await import('../src/lib/config');
+      const { buildContext } = await import('../src/lib/context');
+      const { computeFingerprints } = await import('../src/lib/fingerprint-versions');
+      const { loadTerraformFiles, terraformSignatures } = await import('../src/lib/terraform');
+      
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          'github-token': 'test-token',
+          'terraform-json-paths': 'tf/*.json',
+        };
+        return inputs[name] || '';
+      });
+      
+      (getConfig as any).mockReturnValue({
+        mode: 'create',
+        category: 'terraform-validation',
+        autoDetectCategory: false,
+      });
+      
+      (buildContext as any).mockReturnValue({
+        workflow: { name: 'Infra', job: 'validate' },
+        errorSignatures: ['Error: provider crashed'],
+      });
+      
+      (loadTerraformFiles as any).mockResolvedValue({
+        files: ['tf/validate.json'],
+        diagnostics: [{ severity: 'warning', summary: 'Deprecated attribute' }],
+        destructive: [],
+      });
+      (terraformSignatures as any).mockReturnValue([]);
+      (computeFingerprints as any).mockReturnValue({ current: 'fp-tf', previous: [] });
+      
+      await import('../src/index');
+      await new Promise(resolve => setTimeout(resolve, 10));
+      
+      expect((computeFingerprints as any).mock.calls[0][0]).toMatchObject({
+        errorSignatures: ['Error: provider crashed'],
+      });
+    });
   });
   
   describe('Error Handling', () => {
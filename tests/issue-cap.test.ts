@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  checkWorkflowCap,
+  foldIntoCap,
+  overflowComment,
+  recordOverflow,
+  workflowIssues,
+} from '../src/lib/issue-cap';
+import { nextMetadata, readMetadata, writeMetadata } from '../src/lib/issue-metadata';
+import { failureReport, issueUrl, occurrence, tagged } from './helpers/metadata';
+
+const issues = [
+  { number: 3, title: '[CI] failed — general — a', body: tagged({ workflow: 'CI' }) },
+  { number: 8, title: 'renamed', body: tagged({ workflow: 'CI' }) },
+  { number: 5, title: '[CI] failed — general — legacy', body: 'no block', html_url: issueUrl(5) },
+  { number: 9, title: '[CI] failed — general — b', body: tagged({ workflow: 'Deploy' }) },
+  { number: 7, title: '[Deploy] failed — general — c', body: '', html_url: issueUrl(7) },
+  { number: 4, title: '[CI] failed — general — d', body: tagged({ repository: 'acme/api' }) },
+] as any[];
+
+describe('workflowIssues', () => {
+  it('prefers the metadata block over the title', () => {
+    expect(workflowIssues(issues, 'acme/app', 'CI').map((i) => i.number)).toEqual([3, 8, 5]);
+  });
+
+  it('only counts issues of the same repository', () => {
+    expect(workflowIssues(issues, 'acme/api', 'CI').map((i) => i.number)).toEqual([4]);
+  });
+});
+
+describe('checkWorkflowCap', () => {
+  it('overflows into the most recent issue once the cap is reached', () => {
+    const cap = checkWorkflowCap(issues, 'acme/app', 'CI', 3);
+    expect(cap.open).toBe(3);
+    expect(cap.overflowInto?.number).toBe(8);
+  });
+
+  it('allows new issues below the cap or when disabled', () => {
+    expect(checkWorkflowCap(issues, 'acme/app', 'CI', 4).overflowInto).toBeNull();
+    expect(checkWorkflowCap(issues, 'acme/app', 'CI', 0)).toEqual({
+      open: 0,
+      overflowInto: null,
+    });
+  });
+});
+
+describe('foldIntoCap', () => {
+  const target = { owner: 'acme', repo: 'app' };
+  const fake = () => {
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const update = vi.fn(async () => ({ data: {} }));
+    return {
+      createComment,
+      update,
+      octokit: { rest: { issues: { createComment, update } } } as any,
+    };
+  };
+
+  it('comments the failure on the most recent issue at the cap and records it', async () => {
+    const { createComment, update, octokit } = fake();
+    const report = failureReport({ fingerprint: 'v2-new' });
+
+    expect((await foldIntoCap(octokit, target, issues, report, 4, 24)).overflowInto).toBeNull();
+    expect(createComment).not.toHaveBeenCalled();
+    const cap = await foldIntoCap(octokit, target, issues, report, 3, 24);
+    expect(cap).toMatchObject({ open: 3, rateLimited: false });
+    expect(cap.overflowInto?.number).toBe(8);
+    expect(createComment.mock.calls[0][0]).toMatchObject({ issue_number: 8 });
+    expect(createComment.mock.calls[0][0].body).toContain('fingerprint `v2-new`');
+    const meta = readMetadata(update.mock.calls[0][0].body);
+    expect(meta?.fingerprint).toBe('v2-x');
+    expect(meta?.overflow).toEqual([
+      expect.objectContaining({ fingerprint: 'v2-new', occurrences: 1 }),
+    ]);
+  });
+
+  it('counts repeats on the issue that recorded them', async () => {
+    const { createComment, update, octokit } = fake();
+    const first = occurrence({ fingerprint: 'v2-new', timestamp: '2024-05-01T00:00:00Z' });
+    const recorded = {
+      ...issues[0],
+      body: writeMetadata('body', {
+        ...nextMetadata(null, occurrence()),
+        overflow: recordOverflow([], first, true),
+      }),
+    };
+    const open = [recorded, ...issues.slice(1)];
+
+    const soon = failureReport({ fingerprint: 'v2-new', timestamp: '2024-05-01T06:00:00Z' });
+    const counted = await foldIntoCap(octokit, target, open, soon, 3, 24);
+    expect(counted).toMatchObject({ rateLimited: true });
+    expect(counted.overflowInto?.number).toBe(3);
+    expect(createComment).not.toHaveBeenCalled();
+    expect(readMetadata(update.mock.calls[0][0].body)?.overflow).toEqual([
+      expect.objectContaining({ occurrences: 2, notifiedAt: '2024-05-01T00:00:00Z' }),
+    ]);
+
+    const later = failureReport({ fingerprint: 'v2-new', timestamp: '2024-05-03T00:00:00Z' });
+    expect(await foldIntoCap(octokit, target, open, later, 3, 24)).toMatchObject({
+      rateLimited: false,
+    });
+    expect(createComment.mock.calls[0][0]).toMatchObject({ issue_number: 3 });
+    expect(createComment.mock.calls[0][0].body).toMatch(/^Overflowed failure .*failed again/);
+    expect(createComment.mock.calls[0][0].body).not.toContain('rendered body');
+  });
+});
+
+describe('recordOverflow', () => {
+  it('keeps one record per fingerprint', () => {
+    const first = recordOverflow([], occurrence({ fingerprint: 'v2-a' }), true);
+    const later = occurrence({ fingerprint: 'v2-a', timestamp: '2024-05-02T00:00:00Z' });
+    expect(recordOverflow(first, later, false)).toEqual([
+      {
+        fingerprint: 'v2-a',
+        category: 'general',
+        firstSeen: '2024-05-01T00:00:00Z',
+        lastSeen: '2024-05-02T00:00:00Z',
+        occurrences: 2,
+        notifiedAt: '2024-05-01T00:00:00Z',
+      },
+    ]);
+  });
+});
+
+describe('overflowComment', () => {
+  it('names the fingerprint and the cap', () => {
+    const text = overflowComment(
+      'v2-new',
+      'code-quality',
+      { runUrl: 'u', runNumber: '4', sha: 's', commitUrl: 'c', branch: 'main' },
+      { open: 3, max: 3 },
+      'rendered body'
+    );
+    expect(text).toContain('fingerprint `v2-new`');
+    expect(text).toContain('(max-issues-per-workflow: 3)');
+    expect(text).toContain('rendered body');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findIssueByMetadata,
+  nextMetadata,
+  readMetadata,
+  sourceRepository,
+  writeMetadata,
+} from '../src/lib/issue-metadata';
+
+const occurrence = {
+  fingerprint: 'v2-abc',
+  fingerprintVersion: 2,
+  category: 'code-quality',
+  workflow: 'CI --> nightly',
+  job: 'lint',
+  runId: '101',
+  timestamp: '2024-05-01T10:00:00.000Z',
+};
+
+describe('issue metadata', () => {
+  it('round-trips through a hidden comment at the end of the body', () => {
+    const meta = nextMetadata(null, occurrence);
+    const body = writeMetadata('# CI failure\n\nDetails', meta);
+    expect(body).toMatch(/^# CI failure\n\nDetails\n\n<!-- wic:metadata \{.*\} -->\n$/);
+    expect(body.match(/-->/g)).toHaveLength(1);
+    expect(readMetadata(body)).toEqual(meta);
+  });
+
+  it('replaces the block instead of stacking copies', () => {
+    const first = writeMetadata('body', nextMetadata(null, occurrence));
+    const second = writeMetadata(first, nextMetadata(readMetadata(first), occurrence));
+    expect(second.match(/wic:metadata/g)).toHaveLength(1);
+  });
+
+  it('accumulates history across occurrences', () => {
+    const first = nextMetadata(null, occurrence);
+    const second = nextMetadata(first, {
+      ...occurrence,
+      runId: '102',
+      timestamp: '2024-05-02T10:00:00.000Z',
+    });
+    expect(second).toMatchObject({
+      firstSeen: '2024-05-01T10:00:00.000Z',
+      lastSeen: '2024-05-02T10:00:00.000Z',
+      occurrences: 2,
+      runIds: ['101', '102'],
+    });
+  });
+
+  it('ignores missing or malformed blocks', () => {
+    expect(readMetadata('plain body')).toBeNull();
+    expect(readMetadata('<!-- wic:metadata {"fingerprint": 1} -->')).toBeNull();
+  });
+});
+
+describe('sourceRepository', () => {
+  it('prefers the recorded repository over where the issue lives', () => {
+    const html_url = 'https://github.com/acme/triage/issues/3';
+    const recorded = writeMetadata(
+      '',
+      nextMetadata(null, { ...occurrence, repository: 'acme/app' })
+    );
+    expect(sourceRepository({ body: recorded, html_url } as any)).toBe('acme/app');
+    const legacy = writeMetadata('', nextMetadata(null, occurrence));
+    expect(sourceRepository({ body: legacy, html_url } as any)).toBe('acme/triage');
+    expect(sourceRepository({ body: 'no block', html_url } as any)).toBe('acme/triage');
+  });
+});
+
+describe('findIssueByMetadata', () => {
+  it('matches on the block even when the title was edited', () => {
+    const old = writeMetadata('', nextMetadata(null, { ...occurrence, fingerprint: 'abc' }));
+    const issues = [
+      { number: 1, title: 'renamed by a human', body: old },
+      { number: 2, title: 'v2-abc in title only', body: 'no block' },
+    ];
+    const match = findIssueByMetadata(issues as any, ['v2-abc', 'abc']);
+    expect(match?.issue.number).toBe(1);
+    expect(match?.metadata.fingerprint).toBe('abc');
+  });
+});
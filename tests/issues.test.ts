@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findIssueByTitle, listFailureIssues, lookupFailureIssues } from '../src/lib/issues';
+
+const target = { owner: 'acme', repo: 'app' };
+
+const issue = (number: number, title = `[CI] failed — general — fp${number}`) => ({
+  number,
+  title,
+  body: '',
+});
+
+function fakeOctokit(pages: any[][], found: any[] = []) {
+  const search = vi.fn(async () => ({ data: { items: found } }));
+  const octokit = {
+    paginate: async (_fn: unknown, _params: unknown, map: any) => {
+      const out: any[] = [];
+      let stop = false;
+      for (const data of pages) {
+        out.push(...map({ data }, () => (stop = true)));
+        if (stop) break;
+      }
+      return out;
+    },
+    rest: {
+      issues: { listForRepo: () => undefined },
+      search: { issuesAndPullRequests: search },
+    },
+  } as any;
+  return { octokit, search };
+}
+
+describe('listFailureIssues', () => {
+  it('stops paging at the limit and drops pull requests', async () => {
+    const pages = [[issue(1), { ...issue(2), pull_request: {} }], [issue(3), issue(4)], [issue(5)]];
+    const { octokit } = fakeOctokit(pages);
+    const issues = await listFailureIssues(octokit, target, 'wf', 'open', 3);
+    expect(issues.map((i) => i.number)).toEqual([1, 3, 4]);
+  });
+});
+
+describe('lookupFailureIssues', () => {
+  it('lists only when below the limit', async () => {
+    const { octokit, search } = fakeOctokit([[issue(1)]]);
+    await lookupFailureIssues(octokit, target, 'wf', 'open', ['fp9'], 5);
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('searches each fingerprint once the listing is cut off', async () => {
+    const { octokit, search } = fakeOctokit([[issue(1), issue(2)]], [issue(2), issue(9)]);
+    const issues = await lookupFailureIssues(
+      octokit,
+      target,
+      'workflow failure',
+      'open',
+      ['fp9'],
+      2
+    );
+    expect(issues.map((i) => i.number)).toEqual([1, 2, 9]);
+    expect(search).toHaveBeenCalledWith({
+      q: 'repo:acme/app is:issue state:open label:"workflow failure" "fp9" in:title,body',
+      per_page: 20,
+    });
+    expect(findIssueByTitle(issues, 'fp9')?.number).toBe(9);
+  });
+});
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { loadTestReports, parseJUnitXml, testSignatures } from '../src/lib/junit';
+
+const surefire = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="all">
+  <testsuite name="math" tests="4">
+    <testcase classname="MathTest" name="adds" time="0.012"/>
+    <testcase classname="MathTest" name="subtracts" time="1,250.5">
+      <failure message="expected 1 | got 2" type="AssertionError">stack here</failure>
+    </testcase>
+    <testcase classname="MathTest" name="divides" time="0.2">
+      <error><![CDATA[ZeroDivisionError: division by zero
+  at line 3]]></error>
+    </testcase>
+    <testcase classname="MathTest" name="later"><skipped/></testcase>
+    <testsuite name="nested">
+      <testcase name="deep" time="0"><failure/></testcase>
+    </testsuite>
+  </testsuite>
+</testsuites>`;
+
+describe('parseJUnitXml', () => {
+  it('collects failing cases with suite, duration and message', () => {
+    const report = parseJUnitXml(surefire);
+    expect(report).toMatchObject({ total: 5, skipped: 1, failed: 3 });
+    expect(report.failures[0]).toMatchObject({
+      suite: 'math',
+      name: 'subtracts',
+      kind: 'failure',
+      time: 1250.5,
+      duration: '1250.5s',
+      message: 'expected 1 \\| got 2',
+    });
+    expect(report.failures[1]).toMatchObject({
+      kind: 'error',
+      message: 'ZeroDivisionError: division by zero',
+    });
+    expect(report.failures[2]).toMatchObject({ suite: 'nested', name: 'deep', message: '' });
+  });
+
+  it('accepts a bare testsuite root', () => {
+    const report = parseJUnitXml(
+      '<testsuite name="pytest"><testcase classname="t" name="a"><failure>boom</failure></testcase></testsuite>'
+    );
+    expect(report.failures).toHaveLength(1);
+    expect(report.failures[0].message).toBe('boom');
+  });
+});
+
+describe('loadTestReports', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'junit-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges every matching report and skips unreadable ones', async () => {
+    fs.writeFileSync(path.join(dir, 'a.xml'), surefire);
+    fs.writeFileSync(
+      path.join(dir, 'b.xml'),
+      '<testsuite name="b"><testcase name="x"><failure message="nope"/></testcase></testsuite>'
+    );
+    fs.writeFileSync(path.join(dir, 'c.xml'), '<testsuite><testcase></testsuite>');
+    const skipped: string[] = [];
+
+    const report = await loadTestReports(`${dir}/*.xml`, (file) => skipped.push(file));
+
+    expect(report?.files.map((f) => path.basename(f))).toEqual(['a.xml', 'b.xml']);
+    expect(report?.failed).toBe(4);
+    expect(skipped.map((f) => path.basename(f))).toEqual(['c.xml']);
+  });
+
+  it('returns null when nothing matches', async () => {
+    expect(await loadTestReports(`${dir}/**/*.xml`)).toBeNull();
+    expect(await loadTestReports(' , ')).toBeNull();
+  });
+});
+
+describe('testSignatures', () => {
+  it('is independent of order, messages and durations', () => {
+    const a = parseJUnitXml(surefire);
+    const b = parseJUnitXml(surefire.replace('expected 1', 'expected 7').replace('0.2', '9.9'));
+    b.failures.reverse();
+    expect(testSignatures(a)).toEqual(testSignatures(b));
+    expect(testSignatures(a)).toEqual([
+      'junit math > MathTest.divides',
+      'junit math > MathTest.subtracts',
+      'junit nested > deep',
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { excerptJobLog, excerptLog, fetchFailedJobLog } from '../src/lib/logs';
+
+const rawLog = [
+  '2024-05-01T10:00:00.0000000Z ##[group]Run actions/checkout@v4',
+  '2024-05-01T10:00:01.0000000Z Syncing repository',
+  '2024-05-01T10:00:02.0000000Z ##[endgroup]',
+  '2024-05-01T10:00:03.0000000Z ##[group]Run npm test',
+  '2024-05-01T10:00:04.0000000Z \u001b[36;1mnpm test\u001b[0m',
+  '2024-05-01T10:00:05.0000000Z ##[endgroup]',
+  '2024-05-01T10:00:06.0000000Z > vitest run',
+  '2024-05-01T10:00:07.0000000Z  FAIL  tests/a.test.ts > adds',
+  '2024-05-01T10:00:08.0000000Z AssertionError: expected 3 to be 4',
+  '2024-05-01T10:00:09.0000000Z ##[error]Process completed with exit code 1.',
+  '2024-05-01T10:00:10.0000000Z ##[group]Run actions/upload-artifact@v4',
+  '2024-05-01T10:00:11.0000000Z ##[endgroup]',
+].join('\n');
+
+describe('excerptLog', () => {
+  it('extracts the failing step window without timestamps or ANSI codes', () => {
+    const res = excerptLog(rawLog, { contextLines: 3 });
+    expect(res.stepName).toBe('Run npm test');
+    expect(res.lines).toContain('AssertionError: expected 3 to be 4');
+    expect(res.lines).not.toContain('Syncing repository');
+    expect(res.lines.join('\n')).not.toMatch(/\u001b|2024-05-01T/);
+    expect(res.lines).toContain('Process completed with exit code 1.');
+    expect(res.errorLines).toEqual([
+      'FAIL  tests/a.test.ts > adds',
+      'AssertionError: expected 3 to be 4',
+    ]);
+  });
+
+  it('keeps real error markers over the runner exit-code marker', () => {
+    const log =
+      'npm test\n##[error]src/a.ts(3,1): error TS2304\n##[error]Process completed with exit code 2.';
+    expect(excerptLog(log).errorLines).toEqual(['src/a.ts(3,1): error TS2304']);
+  });
+
+  it('falls back to the exit-code marker when its step shows no error', () => {
+    const log =
+      '##[group]Run ./deploy.sh\n##[endgroup]\ndone\n##[error]Process completed with exit code 1.';
+    const res = excerptLog(log);
+    expect(res.stepName).toBe('Run ./deploy.sh');
+    expect(res.errorLines).toEqual(['Process completed with exit code 1.']);
+  });
+
+  it('falls back to error-looking lines when there is no error marker', () => {
+    const res = excerptLog('setup\nnpm ERR! code ELIFECYCLE\nnpm ERR! failed\n');
+    expect(res.errorLines).toEqual(['npm ERR! code ELIFECYCLE', 'npm ERR! failed']);
+  });
+
+  it('caps the window at maxLines ending at the last error', () => {
+    const lines = Array.from({ length: 50 }, (_, i) => `line ${i}`);
+    lines.push('##[error]boom');
+    const res = excerptLog(lines.join('\n'), { contextLines: 100, maxLines: 5 });
+    expect(res.lines).toEqual(['line 46', 'line 47', 'line 48', 'line 49', 'boom']);
+  });
+
+  it('returns empty results for clean logs', () => {
+    expect(excerptLog('all good\ndone').lines).toEqual([]);
+  });
+});
+
+describe('fetchFailedJobLog', () => {
+  const ctx = { owner: 'acme', repo: 'repo', workflow: { runId: '42' } };
+
+  function fakeOctokit(jobs: any[]) {
+    return {
+      rest: {
+        actions: {
+          listJobsForWorkflowRun: async () => ({ data: { jobs } }),
+          downloadJobLogsForWorkflowRun: async () => ({ data: rawLog }),
+        },
+      },
+    } as any;
+  }
+
+  it('downloads and excerpts the first failed job', async () => {
+    const ok = fakeOctokit([
+      { id: 1, name: 'lint', conclusion: 'success', steps: [] },
+      {
+        id: 2,
+        name: 'test',
+        conclusion: 'failure',
+        html_url: 'http://example/job/2',
+        steps: [{ name: 'Run tests', conclusion: 'failure' }],
+      },
+    ]);
+    const log = await fetchFailedJobLog(ok, ctx);
+    expect(log?.jobName).toBe('test');
+    expect(log?.lines).toContain('Syncing repository');
+    const excerpt = excerptJobLog(log!);
+    expect(excerpt?.stepName).toBe('Run tests');
+    expect(excerpt?.text).toContain('AssertionError');
+    expect(excerpt?.fence).toBe('```');
+  });
+
+  it('fences excerpts longer than their own backtick runs', () => {
+    const excerpt = excerptJobLog({
+      jobName: 'docs',
+      jobUrl: '',
+      stepName: '',
+      lines: ['render README', '```` code', 'Error: unclosed ``` block'],
+    });
+    expect(excerpt?.fence).toBe('`````');
+  });
+
+  it('returns null when no job failed or the run id is missing', async () => {
+    const ok = fakeOctokit([{ id: 1, name: 'lint', conclusion: 'success', steps: [] }]);
+    expect(await fetchFailedJobLog(ok, ctx)).toBeNull();
+    expect(await fetchFailedJobLog(ok, { ...ctx, workflow: { runId: '' } })).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { nextMetadata, readMetadata } from '../src/lib/issue-metadata';
+import {
+  commentOccurrence,
+  minimizeOldOccurrences,
+  occurrenceComment,
+  refreshHeader,
+  summaryHeader,
+} from '../src/lib/occurrences';
+import { failureReport, tagged } from './helpers/metadata';
+
+const run = {
+  runUrl: 'https://github.com/acme/app/actions/runs/9',
+  runNumber: '42',
+  sha: 'abcdef1234567',
+  commitUrl: 'https://github.com/acme/app/commit/abcdef1234567',
+  branch: 'main',
+};
+
+const meta = nextMetadata(null, {
+  fingerprint: 'v2-abc',
+  fingerprintVersion: 2,
+  category: 'general',
+  workflow: 'CI',
+  job: 'test',
+  runId: '9',
+  timestamp: '2024-05-01T10:00:00.000Z',
+});
+
+describe('summary header', () => {
+  it('is replaced in place and keeps the rest of the body', () => {
+    const body = refreshHeader('# Failure\n\nDetails', summaryHeader(meta, run));
+    expect(body).toMatch(/^<!-- wic:header -->\n> \*\*Failing\*\* · seen 1 time\(s\)/);
+    const again = refreshHeader(
+      `${body}\n\nEdited by a human`,
+      summaryHeader({ ...meta, occurrences: 5 }, run)
+    );
+    expect(again.match(/<!-- wic:header -->/g)).toHaveLength(1);
+    expect(again).toContain('seen 5 time(s)');
+    expect(again).toContain('# Failure\n\nDetails\n\nEdited by a human');
+  });
+});
+
+describe('occurrenceComment', () => {
+  it('lists only new or changed error lines', () => {
+    const text = occurrenceComment(meta, run, ['Error: a', 'Error: b'], ['Error: b', 'Error: c']);
+    expect(text).toContain('[run #42](https://github.com/acme/app/actions/runs/9)');
+    expect(text).toContain('[`abcdef1`]');
+    expect(text).toContain('**New or changed error lines**\n```text\nError: c\n```');
+    expect(text).not.toContain('Error: b');
+  });
+
+  it('says so when nothing changed', () => {
+    expect(occurrenceComment(meta, run, ['x'], ['x'])).toContain('Same error lines as last time.');
+  });
+});
+
+describe('commentOccurrence', () => {
+  it('comments and refreshes only the header and the block', async () => {
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const update = vi.fn(async () => ({ data: {} }));
+    const octokit = { rest: { issues: { createComment, update } } } as any;
+    const issue = {
+      number: 5,
+      body: tagged({ errorSignatures: ['Error: a'] }, '# Failure'),
+    } as any;
+    const report = failureReport({ runId: '9', errorSignatures: ['Error: a', 'Error: b'] });
+
+    await commentOccurrence(octokit, { owner: 'acme', repo: 'app' }, issue, report);
+    const comment = createComment.mock.calls[0][0].body;
+    expect(comment).toContain('(occurrence 2)');
+    expect(comment).toContain('**New or changed error lines**\n```text\nError: b\n```');
+    const body = update.mock.calls[0][0].body;
+    expect(body).toMatch(/^<!-- wic:header -->\n> \*\*Failing\*\* · seen 2 time\(s\)/);
+    expect(body).toContain('# Failure');
+    expect(readMetadata(body)?.occurrences).toBe(2);
+  });
+});
+
+describe('minimizeOldOccurrences', () => {
+  it('minimizes older occurrence comments beyond the limit', async () => {
+    const nodes = [
+      { id: 'c1', body: '<!-- wic:occurrence -->\nFailed again', isMinimized: true },
+      { id: 'c2', body: 'human discussion', isMinimized: false },
+      { id: 'c3', body: '<!-- wic:occurrence -->\nFailed again', isMinimized: false },
+      { id: 'c4', body: '<!-- wic:occurrence -->\nFailed again', isMinimized: false },
+      { id: 'c5', body: '<!-- wic:occurrence -->\nFailed again', isMinimized: false },
+    ];
+    const minimized: string[] = [];
+    const octokit = {
+      graphql: async (query: string, vars: any) => {
+        if (query.includes('minimizeComment')) minimized.push(vars.id);
+        return { repository: { issue: { comments: { nodes } } } };
+      },
+    } as any;
+    expect(await minimizeOldOccurrences(octokit, { owner: 'a', repo: 'b' }, 1, 2)).toBe(1);
+    expect(minimized).toEqual(['c3']);
+  });
+});
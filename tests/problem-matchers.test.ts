@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect } from 'vitest';
+import { parseErrors } from '../src/lib/error-parsers';
+import {
+  loadProblemMatchers,
+  parseProblemMatcherFile,
+  problemMatcherParsers,
+  runProblemMatcher,
+} from '../src/lib/problem-matchers';
+
+const singleLine = {
+  owner: 'tsc-custom',
+  pattern: [
+    {
+      regexp: '^([^\\s].*)\\((\\d+),(\\d+)\\): (error|warning) (TS\\d+): (.*)$',
+      file: 1,
+      line: 2,
+      column: 3,
+      severity: 4,
+      code: 5,
+      message: 6,
+    },
+  ],
+};
+
+// eslint-stylish style: a file header followed by looping problem lines
+const multiLine = {
+  owner: 'stylish',
+  severity: 'warning' as const,
+  pattern: [
+    { regexp: '^([^\\s].*)$', file: 1 },
+    {
+      regexp: '^\\s+(\\d+):(\\d+)\\s+(error|warning|info)\\s+(.*)\\s\\s+(.*)$',
+      line: 1,
+      column: 2,
+      severity: 3,
+      message: 4,
+      code: 5,
+      loop: true,
+    },
+  ],
+};
+
+describe('runProblemMatcher', () => {
+  it('matches single-line patterns', () => {
+    const [err] = runProblemMatcher(singleLine, [
+      'noise',
+      "src/a.ts(3,7): error TS2304: Cannot find name 'x'.",
+    ]);
+    expect(err).toMatchObject({
+      parser: 'matcher:tsc-custom',
+      file: 'src/a.ts',
+      line: 3,
+      column: 7,
+      severity: 'error',
+      code: 'TS2304',
+      message: "Cannot find name 'x'.",
+    });
+  });
+
+  it('matches consecutive lines and loops on the last pattern', () => {
+    const errs = runProblemMatcher(multiLine, [
+      'src/a.ts',
+      '  1:1  error  Missing semicolon  semi',
+      '  2:5  warning  Unexpected console  no-console',
+      '',
+      'src/b.ts',
+      '  9:2  error  Bad quotes  quotes',
+    ]);
+    expect(errs.map((e) => [e.file, e.line, e.severity, e.code])).toEqual([
+      ['src/a.ts', 1, 'error', 'semi'],
+      ['src/a.ts', 2, 'warning', 'no-console'],
+      ['src/b.ts', 9, 'error', 'quotes'],
+    ]);
+  });
+
+  it('falls back to the matcher default severity', () => {
+    const matcher = {
+      owner: 'x',
+      severity: 'warning' as const,
+      pattern: [{ regexp: '^WARN (.*)$', message: 1 }],
+    };
+    expect(runProblemMatcher(matcher, ['WARN disk low'])[0].severity).toBe('warning');
+  });
+});
+
+describe('problem matchers as parsers', () => {
+  it('run ahead of built-in parsers and feed signatures', () => {
+    const errs = parseErrors(
+      ["src/a.ts(3,7): error TS2304: Cannot find name 'x'."],
+      'code-quality',
+      problemMatcherParsers([singleLine])
+    );
+    expect(errs[0].parser).toBe('matcher:tsc-custom');
+    expect(errs[0].signature).toBe("matcher:tsc-custom TS2304 src/a.ts: Cannot find name 'x'.");
+  });
+});
+
+describe('loading matcher files', () => {
+  it('validates the add-matcher schema', () => {
+    expect(parseProblemMatcherFile(JSON.stringify({ problemMatcher: [singleLine] }))).toHaveLength(
+      1
+    );
+    expect(() => parseProblemMatcherFile('{"problemMatcher": [{"owner": "x"}]}')).toThrow();
+    expect(() =>
+      parseProblemMatcherFile(
+        JSON.stringify({ problemMatcher: [{ owner: 'x', pattern: [{ regexp: '(' }] }] })
+      )
+    ).toThrow();
+  });
+
+  it('loads matchers from globs, later owners replacing earlier ones', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'matchers-'));
+    try {
+      fs.writeFileSync(
+        path.join(dir, 'a-matcher.json'),
+        JSON.stringify({ problemMatcher: [singleLine, multiLine] })
+      );
+      fs.writeFileSync(
+        path.join(dir, 'b-matcher.json'),
+        JSON.stringify({ problemMatcher: [{ ...multiLine, severity: 'error' }] })
+      );
+      fs.writeFileSync(path.join(dir, 'c-matcher.json'), 'not json');
+      const skipped: string[] = [];
+
+      const matchers = await loadProblemMatchers(`${dir}/*-matcher.json`, (f) => skipped.push(f));
+
+      expect(matchers.map((m) => [m.owner, m.severity])).toEqual([
+        ['tsc-custom', undefined],
+        ['stylish', 'error'],
+      ]);
+      expect(skipped.map((f) => path.basename(f))).toEqual(['c-matcher.json']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
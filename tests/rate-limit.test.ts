@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { nextMetadata, readMetadata, writeMetadata } from '../src/lib/issue-metadata';
+import { backOff, batchedSummary, suppressOccurrence, withinBackoff } from '../src/lib/rate-limit';
+
+const occurrence = (runId: string, timestamp: string, errorSignatures: string[] = []) => ({
+  fingerprint: 'v2-abc',
+  fingerprintVersion: 2,
+  category: 'general',
+  workflow: 'Nightly',
+  job: 'test',
+  runId,
+  timestamp,
+  errorSignatures,
+});
+
+describe('withinBackoff', () => {
+  it('compares against the window in hours', () => {
+    expect(withinBackoff('2024-05-01T00:00:00Z', '2024-05-01T23:59:00Z', 24)).toBe(true);
+    expect(withinBackoff('2024-05-01T00:00:00Z', '2024-05-02T00:00:00Z', 24)).toBe(false);
+    expect(withinBackoff('2024-05-01T00:00:00Z', '2024-05-01T01:00:00Z', 0)).toBe(false);
+    expect(withinBackoff(undefined, '2024-05-01T01:00:00Z', 24)).toBe(false);
+  });
+});
+
+describe('suppressOccurrence', () => {
+  it('counts the occurrence but keeps the last report', () => {
+    const reported = nextMetadata(null, occurrence('1', '2024-05-01T00:00:00Z', ['Error: a']));
+    const next = nextMetadata(reported, occurrence('2', '2024-05-01T01:00:00Z', ['Error: b']));
+    const counted = suppressOccurrence(next, reported, reported.notifiedAt!);
+    expect(counted).toMatchObject({
+      occurrences: 2,
+      lastSeen: '2024-05-01T01:00:00Z',
+      notifiedAt: '2024-05-01T00:00:00Z',
+      suppressed: 1,
+      errorSignatures: ['Error: a'],
+      runIds: ['1', '2'],
+    });
+    const again = suppressOccurrence(
+      nextMetadata(counted, occurrence('3', '2024-05-01T02:00:00Z')),
+      counted,
+      counted.notifiedAt!
+    );
+    expect(again.suppressed).toBe(2);
+  });
+});
+
+describe('batchedSummary', () => {
+  it('links the runs counted in the window', () => {
+    const meta = {
+      ...nextMetadata(null, occurrence('3', '2024-05-01T02:00:00Z')),
+      runIds: ['1', '2', '3'],
+      notifiedAt: '2024-05-01T00:00:00Z',
+      suppressed: 2,
+    };
+    const text = batchedSummary(meta, (id) => `https://ci/runs/${id}`);
+    expect(text).toMatch(/^2 more occurrence\(s\) between 2024-05-01T00:00:00Z and/);
+    expect(text).toContain('- [run 2](https://ci/runs/2)\n- [run 3](https://ci/runs/3)');
+    expect(text).not.toContain('run 1');
+  });
+});
+
+describe('backOff', () => {
+  const target = { owner: 'acme', repo: 'app' };
+  const runUrl = (id: string) => `https://github.com/acme/app/actions/runs/${id}`;
+
+  function fakeOctokit() {
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const update = vi.fn(async () => ({ data: {} }));
+    return {
+      octokit: { rest: { issues: { createComment, update } } } as any,
+      createComment,
+      update,
+    };
+  }
+
+  it('only counts repeats inside the window', async () => {
+    const { octokit, createComment, update } = fakeOctokit();
+    const body = writeMetadata('body', nextMetadata(null, occurrence('1', '2024-05-01T00:00:00Z')));
+    const issue = { number: 4, body } as any;
+    const next = occurrence('2', '2024-05-01T01:00:00Z');
+
+    expect(await backOff(octokit, target, issue, next, 24, runUrl)).toBe(true);
+    expect(readMetadata(update.mock.calls[0][0].body)).toMatchObject({
+      occurrences: 2,
+      suppressed: 1,
+    });
+    expect(createComment).not.toHaveBeenCalled();
+  });
+
+  it('summarises the counted runs once the window is over', async () => {
+    const { octokit, createComment, update } = fakeOctokit();
+    const counted = {
+      ...nextMetadata(null, occurrence('2', '2024-05-01T01:00:00Z')),
+      notifiedAt: '2024-05-01T00:00:00Z',
+      suppressed: 1,
+    };
+    const issue = { number: 4, body: writeMetadata('body', counted) } as any;
+
+    const next = occurrence('3', '2024-05-02T02:00:00Z');
+    expect(await backOff(octokit, target, issue, next, 24, runUrl)).toBe(false);
+    expect(update).not.toHaveBeenCalled();
+    expect(createComment.mock.calls[0][0].body).toContain(
+      '[run 2](https://github.com/acme/app/actions/runs/2)'
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findClosedMatch,
+  previousIssueNote,
+  reopenAsRegression,
+  withinReopenWindow,
+} from '../src/lib/regression';
+import { tagged } from './helpers/metadata';
+
+const run = {
+  runUrl: 'https://github.com/acme/app/actions/runs/9',
+  runNumber: '42',
+  sha: 'abcdef1234567',
+  commitUrl: 'https://github.com/acme/app/commit/abcdef1234567',
+  branch: 'main',
+};
+
+const april = '2024-04-01T00:00:00Z';
+
+const closed = [
+  {
+    number: 4,
+    title: 'edited',
+    body: tagged({ fingerprint: 'v2-abc', timestamp: april }),
+    closed_at: '2024-04-10T00:00:00Z',
+  },
+  {
+    number: 6,
+    title: 'edited',
+    body: tagged({ fingerprint: 'v2-abc', timestamp: april }),
+    closed_at: '2024-04-20T00:00:00Z',
+  },
+  { number: 2, title: '[CI] failed — general — abc', body: '', closed_at: '2024-04-25T00:00:00Z' },
+  {
+    number: 8,
+    title: 'other',
+    body: tagged({ fingerprint: 'v2-zzz', timestamp: april }),
+    closed_at: '2024-04-30T00:00:00Z',
+  },
+] as any[];
+
+describe('findClosedMatch', () => {
+  it('returns the most recently closed match by metadata or legacy title', () => {
+    expect(findClosedMatch(closed, ['v2-abc'])?.number).toBe(6);
+    expect(findClosedMatch(closed, ['v2-abc', 'abc'])?.number).toBe(2);
+    expect(findClosedMatch(closed, ['v2-none'])).toBeNull();
+  });
+});
+
+describe('withinReopenWindow', () => {
+  it('is bounded by the window in days', () => {
+    expect(withinReopenWindow('2024-04-20T00:00:00Z', '2024-04-26T00:00:00Z', 7)).toBe(true);
+    expect(withinReopenWindow('2024-04-20T00:00:00Z', '2024-04-28T00:00:00Z', 7)).toBe(false);
+    expect(withinReopenWindow('2024-04-20T00:00:00Z', '2024-04-21T00:00:00Z', 0)).toBe(false);
+  });
+});
+
+describe('reopenAsRegression', () => {
+  it('reopens, labels and comments', async () => {
+    const calls: string[] = [];
+    const octokit = {
+      rest: {
+        issues: {
+          update: async (p: any) => {
+            calls.push(`update ${p.state}`);
+            return { data: { number: p.issue_number, state: p.state } };
+          },
+          addLabels: async (p: any) => calls.push(`label ${p.labels.join(',')}`),
+          createComment: async (p: any) => calls.push(`comment ${p.body}`),
+        },
+      },
+    } as any;
+    const res = await reopenAsRegression(octokit, { owner: 'a', repo: 'b' }, closed[1], run);
+    expect(res).toEqual({ number: 6, state: 'open' });
+    expect(calls[0]).toBe('update open');
+    expect(calls[1]).toBe('label regression');
+    expect(calls[2]).toMatch(/^comment Regressed: failing again in \[run #42\]/);
+  });
+});
+
+describe('previousIssueNote', () => {
+  it('links the closed issue', () => {
+    expect(previousIssueNote(closed[0])).toBe(
+      '> Previously tracked in #4 (closed 2024-04-10T00:00:00Z).'
+    );
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect, vi } from 'vitest';
+import { nextMetadata, readMetadata, writeMetadata } from '../src/lib/issue-metadata';
+import { listFailedJobs, listPassingJobs } from '../src/lib/jobs';
+import {
+  closeResolved,
+  recordPass,
+  resolutionComment,
+  resolvableIssues,
+  resolveIssues,
+} from '../src/lib/resolve';
+import { issueUrl, tagged } from './helpers/metadata';
+
+const issues = [
+  { number: 1, title: 'a', body: tagged({ fingerprint: 'v2-aaa', job: 'test', branch: 'main' }) },
+  {
+    number: 2,
+    title: 'b',
+    body: tagged({ fingerprint: 'v2-bbb', job: 'test', branch: 'release' }),
+  },
+  {
+    number: 3,
+    title: 'c',
+    body: tagged({ fingerprint: 'v2-ccc', job: 'test {os=linux}', branch: 'main' }),
+  },
+  { number: 4, title: 'd', body: tagged({ fingerprint: 'v2-ddd', job: 'lint', branch: 'main' }) },
+  {
+    number: 5,
+    title: 'e',
+    body: tagged({ fingerprint: 'v2-eee', job: 'test', branch: 'main', workflow: 'Deploy' }),
+  },
+  {
+    number: 6,
+    title: '[CI] failed — general — v2-empty',
+    body: 'created before metadata',
+    html_url: issueUrl(6),
+  },
+  {
+    number: 7,
+    title: '[CI] failed — general — v2-zzz',
+    body: 'created before metadata',
+    html_url: issueUrl(7),
+  },
+  {
+    number: 8,
+    title: 'f',
+    body: tagged({ fingerprint: 'v2-fff', repository: 'acme/api', branch: 'main' }),
+  },
+] as any[];
+
+const ci = { repository: 'acme/app', workflow: 'CI' };
+
+describe('resolvableIssues', () => {
+  it('matches every issue of the workflow and job, whatever its fingerprint', () => {
+    const resolved = resolvableIssues(issues, { ...ci, jobs: ['test'] }, ['v2-empty']);
+    expect(resolved.map((i) => i.number)).toEqual([1, 2, 6]);
+  });
+
+  it('can be limited to the branch', () => {
+    const scope = { ...ci, jobs: ['test'], branch: 'release' };
+    expect(resolvableIssues(issues, scope, []).map((i) => i.number)).toEqual([2]);
+  });
+
+  it('keeps fingerprint-scoped jobs apart', () => {
+    const scope = { ...ci, jobs: ['test {os=linux}'] };
+    expect(resolvableIssues(issues, scope, []).map((i) => i.number)).toEqual([3]);
+  });
+
+  it('resolves failures reported from a separate job (needs: [build])', async () => {
+    const run = (jobs: object[]) =>
+      ({ rest: { actions: { listJobsForWorkflowRun: async () => ({ data: { jobs } }) } } }) as any;
+    const ctx = { owner: 'acme', repo: 'app', workflow: { runId: '9' } };
+    // Red run: the issue-on-failure job reports the build job's failure
+    const [failed] = await listFailedJobs(
+      run([
+        { name: 'build', conclusion: 'failure', steps: [] },
+        { name: 'issue-on-failure', conclusion: null, steps: [] },
+      ]),
+      ctx
+    );
+    const reported = [{ number: 10, title: 'x', body: tagged({ job: failed.name }) }] as any[];
+    // Green run: close-issue-on-success runs once build has passed
+    vi.stubEnv('RUNNER_NAME', 'runner 2');
+    const passed = await listPassingJobs(
+      run([
+        { name: 'build', conclusion: 'success', steps: [] },
+        { name: 'close-issue-on-success', conclusion: null, runner_name: 'runner 2', steps: [] },
+      ]),
+      ctx
+    );
+    vi.unstubAllEnvs();
+    const scope = { ...ci, jobs: passed.map((j) => j.name) };
+    expect(scope.jobs).toEqual(['build', 'close-issue-on-success']);
+    expect(resolvableIssues(reported, scope, []).map((i) => i.number)).toEqual([10]);
+  });
+
+  it('does not count sibling jobs still in progress as passing', async () => {
+    const jobs = [
+      { name: 'lint', conclusion: 'success', runner_name: 'runner 1', steps: [] },
+      { name: 'test', conclusion: null, runner_name: 'runner 2', steps: [] },
+      { name: 'e2e', conclusion: null, runner_name: 'runner 3', steps: [] },
+    ];
+    const octokit = {
+      rest: { actions: { listJobsForWorkflowRun: async () => ({ data: { jobs } }) } },
+    } as any;
+    const ctx = { owner: 'acme', repo: 'app', workflow: { runId: '9' } };
+
+    vi.stubEnv('RUNNER_NAME', 'runner 2');
+    expect((await listPassingJobs(octokit, ctx)).map((j) => j.name)).toEqual(['lint', 'test']);
+    vi.stubEnv('RUNNER_NAME', '');
+    expect((await listPassingJobs(octokit, ctx)).map((j) => j.name)).toEqual(['lint']);
+    vi.unstubAllEnvs();
+  });
+
+  it('leaves issues of other repositories alone', () => {
+    const api = { ...ci, repository: 'acme/api', jobs: ['test'] };
+    expect(resolvableIssues(issues, api, ['v2-empty']).map((i) => i.number)).toEqual([8]);
+  });
+});
+
+const passing = {
+  runId: '9',
+  runUrl: 'https://github.com/acme/app/actions/runs/9',
+  runNumber: '42',
+  sha: 'abcdef1234567',
+  commitUrl: 'https://github.com/acme/app/commit/abcdef1234567',
+  branch: 'main',
+  repo: { owner: 'acme', repo: 'app' },
+};
+
+const range = {
+  compareUrl: 'https://github.com/acme/app/compare/1111111...abcdef1',
+  total: 2,
+  commits: [
+    { sha: '2222222aaa', url: 'u2', author: 'Jane Doe', message: 'Bump deps' },
+    { sha: 'abcdef1234567', url: 'u3', author: '@octocat', message: 'Fix null check' },
+  ],
+};
+
+describe('resolutionComment', () => {
+  it('links the compare range and lists its commits newest first', () => {
+    const text = resolutionComment(passing, '1111111999', range);
+    expect(text).toContain(
+      '[`1111111...abcdef1`](https://github.com/acme/app/compare/1111111...abcdef1)'
+    );
+    expect(text.split('\n').slice(-2)).toEqual([
+      '- [`abcdef1`](u3) Fix null check (@octocat)',
+      '- [`2222222`](u2) Bump deps (Jane Doe)',
+    ]);
+  });
+
+  it('flags a pass on the very commit that failed', () => {
+    expect(resolutionComment(passing, passing.sha, null)).toMatch(/may be flaky/);
+  });
+
+  it('only names the run when the failing sha is unknown', () => {
+    expect(resolutionComment(passing, undefined, null)).not.toContain('\n');
+  });
+});
+
+describe('closeResolved', () => {
+  it('comments with the passing run and closes as completed', async () => {
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const update = vi.fn(async () => ({ data: {} }));
+    const octokit = { rest: { issues: { createComment, update } } } as any;
+    await closeResolved(octokit, { owner: 'acme', repo: 'app' }, issues[0], passing);
+    expect(createComment).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 1, body: expect.stringContaining('run #42') })
+    );
+    expect(update).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'app',
+      issue_number: 1,
+      state: 'closed',
+      state_reason: 'completed',
+    });
+  });
+
+  it('compares from the last failing sha of the issue', async () => {
+    const compareCommitsWithBasehead = vi.fn(async () => ({
+      data: {
+        html_url: range.compareUrl,
+        total_commits: 1,
+        commits: [
+          {
+            sha: 'abcdef1234567',
+            html_url: 'u3',
+            author: { login: 'octocat' },
+            commit: { message: 'Fix null check\n\nlong body', author: { name: 'Octo Cat' } },
+          },
+        ],
+      },
+    }));
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const octokit = {
+      rest: {
+        repos: { compareCommitsWithBasehead },
+        issues: { createComment, update: async () => ({ data: {} }) },
+      },
+    } as any;
+    const body = writeMetadata('body', { ...readMetadata(issues[0].body)!, sha: '1111111999' });
+    await closeResolved(
+      octokit,
+      { owner: 'acme', repo: 'issues' },
+      { ...issues[0], body },
+      passing
+    );
+    expect(compareCommitsWithBasehead).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'app',
+      basehead: '1111111999...abcdef1234567',
+    });
+    expect(createComment.mock.calls[0][0].body).toContain('Fix null check (@octocat)');
+  });
+});
+
+describe('recordPass', () => {
+  const run = {
+    ...passing,
+    runId: '10',
+    runUrl: 'https://github.com/acme/app/actions/runs/10',
+    runNumber: '43',
+  };
+
+  function fakeOctokit() {
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const update = vi.fn(async () => ({ data: {} }));
+    return {
+      octokit: { rest: { issues: { createComment, update } } } as any,
+      createComment,
+      update,
+    };
+  }
+
+  it('stores the streak and reports progress until it is long enough', async () => {
+    const { octokit, createComment, update } = fakeOctokit();
+    const closed = await recordPass(octokit, { owner: 'acme', repo: 'app' }, issues[0], run, 3);
+    expect(closed).toBe(false);
+    expect(readMetadata(update.mock.calls[0][0].body)?.passes).toBe(1);
+    expect(createComment.mock.calls[0][0].body).toMatch(/^1\/3 consecutive passes/);
+  });
+
+  it('counts each run once', async () => {
+    const { octokit, createComment, update } = fakeOctokit();
+    const target = { owner: 'acme', repo: 'app' };
+    await recordPass(octokit, target, issues[0], run, 3);
+    const counted = { ...issues[0], body: update.mock.calls[0][0].body };
+    expect(readMetadata(counted.body)?.lastPassRunId).toBe('10');
+
+    // Another job of the same run, or a re-run of it
+    expect(await recordPass(octokit, target, counted, run, 3)).toBe(false);
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(createComment).toHaveBeenCalledTimes(1);
+
+    await recordPass(octokit, target, counted, { ...run, runId: '11' }, 3);
+    expect(readMetadata(update.mock.calls[1][0].body)?.passes).toBe(2);
+  });
+
+  it('closes when the streak reaches the requirement', async () => {
+    const { octokit, update } = fakeOctokit();
+    const body = writeMetadata('body', { ...readMetadata(issues[0].body)!, passes: 2 });
+    const closed = await recordPass(
+      octokit,
+      { owner: 'acme', repo: 'app' },
+      { ...issues[0], body },
+      run,
+      3
+    );
+    expect(closed).toBe(true);
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ state: 'closed' }));
+  });
+
+  it('is reset by the next failure', () => {
+    const meta = { ...readMetadata(issues[0].body)!, passes: 2 };
+    const next = nextMetadata(meta, {
+      fingerprint: 'v2-aaa',
+      fingerprintVersion: 2,
+      category: 'general',
+      workflow: 'CI',
+      job: 'test',
+      runId: '2',
+      timestamp: '2024-05-02T00:00:00Z',
+    });
+    expect(next.passes).toBeUndefined();
+  });
+});
+
+describe('resolveIssues', () => {
+  it('records the pass on the resolvable issues and returns those closed', async () => {
+    const update = vi.fn(async () => ({ data: {} }));
+    const octokit = {
+      rest: { issues: { createComment: async () => ({ data: {} }), update } },
+    } as any;
+    const scope = { ...ci, jobs: ['lint'] };
+    const closed = await resolveIssues(
+      octokit,
+      { owner: 'acme', repo: 'app' },
+      issues,
+      scope,
+      [],
+      passing,
+      1
+    );
+    expect(closed.map((i) => i.number)).toEqual([4]);
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 4, state: 'closed' })
+    );
+  });
+});
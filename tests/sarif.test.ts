@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  linkCodeScanningAlerts,
+  loadSarifFiles,
+  parseSarif,
+  sarifSignatures,
+} from '../src/lib/sarif';
+
+const sarif = {
+  version: '2.1.0',
+  runs: [
+    {
+      tool: {
+        driver: {
+          name: 'CodeQL',
+          rules: [
+            { id: 'js/sql-injection', properties: { 'security-severity': '8.8' } },
+            { id: 'js/unused-local', defaultConfiguration: { level: 'note' } },
+          ],
+        },
+      },
+      results: [
+        {
+          ruleId: 'js/unused-local',
+          ruleIndex: 1,
+          message: { text: 'Unused variable x.' },
+          locations: [
+            {
+              physicalLocation: { artifactLocation: { uri: 'src/a.js' }, region: { startLine: 3 } },
+            },
+          ],
+        },
+        {
+          ruleId: 'js/sql-injection',
+          message: { text: 'Query built from | user input\nmore detail' },
+          partialFingerprints: { primaryLocationLineHash: 'abc123:1' },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: 'file:///home/runner/work/app/app/src/db.js' },
+                region: { startLine: 42 },
+              },
+            },
+          ],
+        },
+        {
+          ruleId: 'js/sql-injection',
+          message: { text: 'suppressed' },
+          suppressions: [{ kind: 'inSource' }],
+        },
+      ],
+    },
+  ],
+};
+
+describe('parseSarif', () => {
+  it('maps rule, severity, location and message', () => {
+    const [unused, sqli] = parseSarif(sarif);
+    expect(sqli).toMatchObject({
+      tool: 'CodeQL',
+      ruleId: 'js/sql-injection',
+      severity: 'high',
+      file: 'src/db.js',
+      location: 'src/db.js:42',
+      message: 'Query built from \\| user input',
+    });
+    expect(unused).toMatchObject({ severity: 'note', location: 'src/a.js:3' });
+  });
+
+  it('skips suppressed results and rejects non-SARIF input', () => {
+    expect(parseSarif(sarif)).toHaveLength(2);
+    expect(() => parseSarif('{"foo": 1}')).toThrow('Not a SARIF log');
+  });
+
+  it('fingerprints by rule and location, preferring the line hash', () => {
+    const reworded = JSON.parse(JSON.stringify(sarif));
+    reworded.runs[0].results[1].message.text = 'different wording';
+    reworded.runs[0].results[1].locations[0].physicalLocation.region.startLine = 50;
+    expect(sarifSignatures(parseSarif(reworded))).toEqual(sarifSignatures(parseSarif(sarif)));
+    expect(sarifSignatures(parseSarif(sarif))).toEqual([
+      'sarif js/sql-injection src/db.js#abc123:1',
+      'sarif js/unused-local src/a.js#3',
+    ]);
+  });
+});
+
+describe('loadSarifFiles', () => {
+  it('merges files and sorts findings by severity', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sarif-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'codeql.sarif'), JSON.stringify(sarif));
+      fs.writeFileSync(path.join(dir, 'broken.sarif'), '{');
+      const skipped: string[] = [];
+      const summary = await loadSarifFiles(`${dir}/*.sarif`, (f) => skipped.push(f));
+      expect(summary?.tools).toBe('CodeQL');
+      expect(summary?.findings.map((f) => f.severity)).toEqual(['high', 'note']);
+      expect(skipped.map((f) => path.basename(f))).toEqual(['broken.sarif']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('linkCodeScanningAlerts', () => {
+  it('links findings to open alerts with the same rule and location', async () => {
+    const alerts = [
+      {
+        rule: { id: 'js/sql-injection' },
+        html_url: 'https://github.com/acme/app/security/code-scanning/7',
+        most_recent_instance: { location: { path: 'src/db.js', start_line: 42 } },
+      },
+      {
+        rule: { id: 'js/unused-local' },
+        html_url: 'https://github.com/acme/app/security/code-scanning/8',
+        most_recent_instance: { location: { path: 'src/other.js', start_line: 3 } },
+      },
+    ];
+    const paginate = vi.fn(async () => alerts);
+    const octokit = {
+      paginate,
+      rest: { codeScanning: { listAlertsForRepo: () => undefined } },
+    } as any;
+    const findings = parseSarif(sarif);
+
+    const linked = await linkCodeScanningAlerts(
+      octokit,
+      { owner: 'acme', repo: 'app', ref: 'refs/heads/main' },
+      findings
+    );
+
+    expect(linked).toBe(1);
+    expect(findings.find((f) => f.ruleId === 'js/sql-injection')?.alertUrl).toBe(
+      'https://github.com/acme/app/security/code-scanning/7'
+    );
+    expect(findings.find((f) => f.ruleId === 'js/unused-local')?.alertUrl).toBeUndefined();
+    expect(paginate).toHaveBeenCalledTimes(1);
+    expect(paginate.mock.calls[0][1]).toMatchObject({
+      ref: 'refs/heads/main',
+      tool_name: 'CodeQL',
+      state: 'open',
+    });
+  });
+
+  it('stops listing alerts at the limit', async () => {
+    const page = (n: number) => ({
+      data: Array.from({ length: 100 }, (_, i) => ({ rule: { id: `r${n}-${i}` } })),
+    });
+    let pages = 0;
+    const octokit = {
+      paginate: async (_route: unknown, _params: unknown, map: any) => {
+        const out: unknown[] = [];
+        let stop = false;
+        for (let n = 0; n < 5 && !stop; n++) {
+          pages++;
+          out.push(...map(page(n), () => (stop = true)));
+        }
+        return out;
+      },
+      rest: { codeScanning: { listAlertsForRepo: () => undefined } },
+    } as any;
+    const ctx = { owner: 'acme', repo: 'app', ref: '' };
+
+    expect(await linkCodeScanningAlerts(octokit, ctx, parseSarif(sarif), 150)).toBe(0);
+    expect(pages).toBe(2);
+  });
+});
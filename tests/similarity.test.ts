@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readMetadata } from '../src/lib/issue-metadata';
+import {
+  attachToSimilar,
+  findSimilarIssue,
+  readSimhash,
+  similarity,
+  similarityCandidates,
+  simhash,
+  simhashMarker,
+} from '../src/lib/similarity';
+import { failureReport, tagged } from './helpers/metadata';
+
+const lines = [
+  "src/api/users.ts: TS2339 Property 'email' does not exist on type 'User'.",
+  'src/api/orders.ts: TS2345 Argument of type string is not assignable to parameter of type number.',
+  'src/api/cart.ts: TS7006 Parameter item implicitly has an any type.',
+];
+
+describe('simhash', () => {
+  it('keeps near-identical failures close and unrelated ones apart', () => {
+    const base = simhash(lines);
+    const tweaked = simhash([
+      ...lines.slice(0, 2),
+      'src/api/cart.ts: TS7006 Parameter entry implicitly has an any type.',
+    ]);
+    const other = simhash([
+      'FAIL tests/login.test.ts > redirects after sign in',
+      'Timeout of 5000ms',
+    ]);
+    expect(base).toMatch(/^[0-9a-f]{16}$/);
+    expect(similarity(base, tweaked)).toBeGreaterThan(0.85);
+    expect(similarity(base, other)).toBeLessThan(0.8);
+  });
+
+  it('ignores numbers and ids', () => {
+    expect(simhash(['timeout after 3000ms on 1a2b3c4d5e'])).toBe(
+      simhash(['timeout after 5000ms on 9f8e7d6c5b'])
+    );
+    expect(simhash([])).toBe('');
+  });
+});
+
+describe('markers', () => {
+  it('round-trips the simhash through the issue body', () => {
+    const hash = simhash(lines);
+    expect(readSimhash(`body\n\n${simhashMarker(hash)}`)).toBe(hash);
+    expect(readSimhash('no marker')).toBe('');
+  });
+});
+
+describe('findSimilarIssue', () => {
+  it('picks the closest issue above the threshold', () => {
+    const hash = simhash(lines);
+    const near = simhash([...lines.slice(0, 2), 'src/api/cart.ts: TS7006 Parameter x is any.']);
+    const issues = [
+      { number: 1, title: 'old', html_url: 'u1', body: 'created before similarity dedupe' },
+      { number: 2, title: 'near', html_url: 'u2', body: simhashMarker(near) },
+      { number: 3, title: 'same', html_url: 'u3', body: simhashMarker(hash) },
+    ] as any[];
+
+    expect(findSimilarIssue(issues, hash, 0.85)).toMatchObject({
+      number: 3,
+      score: 1,
+    });
+    expect(findSimilarIssue(issues, simhash(['unrelated']), 0.99)).toBeNull();
+  });
+});
+
+describe('attachToSimilar', () => {
+  const target = { owner: 'acme', repo: 'app' };
+  const hash = simhash(lines);
+  const options = { threshold: 0.85, rateLimitHours: 24, runUrl: (id: string) => `run/${id}` };
+  const report = failureReport({
+    fingerprint: 'v2-new',
+    runId: '2',
+    timestamp: '2024-05-03T00:00:00Z',
+    errorSignatures: lines,
+  });
+  const issues = [
+    { number: 1, title: 'same, other job', body: tagged({ job: 'lint' }, simhashMarker(hash)) },
+    { number: 2, title: 'same, no metadata', body: simhashMarker(hash) },
+    {
+      number: 3,
+      title: 'near',
+      html_url: 'u3',
+      body: tagged(
+        { fingerprint: 'v2-old', errorSignatures: lines.slice(0, 2) },
+        simhashMarker(hash)
+      ),
+    },
+  ] as any[];
+
+  function fakeOctokit() {
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const update = vi.fn(async () => ({ data: {} }));
+    return {
+      octokit: { rest: { issues: { createComment, update } } } as any,
+      createComment,
+      update,
+    };
+  }
+
+  it('only considers issues of the same repository, workflow, job and category', () => {
+    expect(similarityCandidates(issues, report.occurrence).map((i) => i.number)).toEqual([3]);
+  });
+
+  it('records the occurrence and posts a compact comment', async () => {
+    const { octokit, createComment, update } = fakeOctokit();
+    const attached = await attachToSimilar(octokit, target, issues, hash, report, options);
+    expect(attached).toMatchObject({ number: 3, rateLimited: false });
+
+    const comment = createComment.mock.calls[0][0];
+    expect(comment.issue_number).toBe(3);
+    expect(comment.body).toMatch(/^Similar failure attached \(similarity 1\.00, .*`v2-new`\)/);
+    expect(comment.body).toContain('(occurrence 2)');
+    expect(comment.body).not.toContain('rendered body');
+    const meta = readMetadata(update.mock.calls[0][0].body);
+    expect(meta).toMatchObject({
+      fingerprint: 'v2-old',
+      occurrences: 2,
+      lastSeen: report.occurrence.timestamp,
+    });
+    expect(meta?.runIds).toEqual(['1', '2']);
+  });
+
+  it('only counts attachments inside rate-limit-hours', async () => {
+    const { octokit, createComment, update } = fakeOctokit();
+    const soon = {
+      ...report,
+      occurrence: { ...report.occurrence, timestamp: '2024-05-01T01:00:00Z' },
+    };
+    const attached = await attachToSimilar(octokit, target, issues, hash, soon, options);
+    expect(attached).toMatchObject({ number: 3, rateLimited: true });
+    expect(createComment).not.toHaveBeenCalled();
+    expect(readMetadata(update.mock.calls[0][0].body)).toMatchObject({ suppressed: 1 });
+  });
+
+  it('returns null below the threshold', async () => {
+    const { octokit, createComment } = fakeOctokit();
+    const unrelated = simhash(['unrelated']);
+    expect(await attachToSimilar(octokit, target, issues, unrelated, report, options)).toBeNull();
+    expect(createComment).not.toHaveBeenCalled();
+  });
+});
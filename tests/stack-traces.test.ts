@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { parseStackTraces, stackSignatures } from '../src/lib/stack-traces';
+
+const ctx = { serverUrl: 'https://github.com', repository: 'acme/app', sha: 'abc123' };
+
+const node = [
+  "TypeError: Cannot read properties of undefined (reading 'id')",
+  '    at getUser (/home/runner/work/app/app/src/users.js:12:18)',
+  '    at Layer.handle (/home/runner/work/app/app/node_modules/express/lib/router/layer.js:95:5)',
+  '    at new Promise (<anonymous>)',
+  '    at /home/runner/work/app/app/src/server.js:40:3',
+  '    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)',
+  'npm ERR! code 1',
+];
+
+const python = [
+  'Traceback (most recent call last):',
+  '  File "/home/runner/work/app/app/app/main.py", line 8, in <module>',
+  '    run()',
+  '  File "/opt/hostedtoolcache/Python/3.12.1/x64/lib/python3.12/json/__init__.py", line 346, in loads',
+  '    return _default_decoder.decode(s)',
+  '  File "app/parse.py", line 21, in load',
+  '    data = json.loads(raw)',
+  'ValueError: Expecting value: line 1 column 1 (char 0)',
+];
+
+const jvm = [
+  'Exception in thread "main" java.lang.IllegalStateException: boom',
+  '\tat java.base/java.util.Objects.requireNonNull(Objects.java:233)',
+  '\tat com.acme.app.Service.start(Service.java:42)',
+  '\tat com.acme.app.Main.main(Main.java:7)',
+];
+
+const go = [
+  'panic: runtime error: index out of range [5] with length 3',
+  '',
+  'goroutine 1 [running]:',
+  'github.com/acme/app/pkg.(*Store).Get(...)',
+  '\t/home/runner/work/app/app/pkg/store.go:31 +0x1d',
+  'main.main()',
+  '\t/home/runner/work/app/app/main.go:12 +0x45',
+  'testing.tRunner(0xc000007860, 0x5b3e08)',
+  '\t/opt/hostedtoolcache/go/1.22.0/x64/src/testing/testing.go:1689 +0xfb',
+  'exit status 2',
+];
+
+describe('parseStackTraces', () => {
+  it('links in-repo Node frames and collapses the rest', () => {
+    const [trace] = parseStackTraces(node, ctx);
+    expect(trace.header).toBe("TypeError: Cannot read properties of undefined (reading 'id')");
+    expect(trace.frames).toEqual([
+      {
+        file: 'src/users.js',
+        line: 12,
+        fn: 'getUser',
+        location: 'src/users.js:12',
+        url: 'https://github.com/acme/app/blob/abc123/src/users.js#L12',
+      },
+      expect.objectContaining({ file: 'src/server.js', fn: '' }),
+    ]);
+    expect(trace.collapsed).toBe(3);
+  });
+
+  it('orders Python frames innermost first', () => {
+    const [trace] = parseStackTraces(python, ctx);
+    expect(trace.header).toBe('ValueError: Expecting value: line 1 column 1 (char 0)');
+    expect(trace.frames.map((f) => f.location)).toEqual(['app/parse.py:21', 'app/main.py:8']);
+    expect(trace.collapsed).toBe(1);
+  });
+
+  it('keeps application JVM frames without links', () => {
+    const [trace] = parseStackTraces(jvm, ctx);
+    expect(trace.frames.map((f) => f.fn)).toEqual([
+      'com.acme.app.Service.start',
+      'com.acme.app.Main.main',
+    ]);
+    expect(trace.frames[0]).toMatchObject({ location: 'Service.java:42', url: '' });
+  });
+
+  it('reads Go panics', () => {
+    const [trace] = parseStackTraces(go, ctx);
+    expect(trace.language).toBe('go');
+    expect(trace.frames.map((f) => `${f.fn} ${f.location}`)).toEqual([
+      'github.com/acme/app/pkg.(*Store).Get pkg/store.go:31',
+      'main.main main.go:12',
+    ]);
+    expect(trace.collapsed).toBe(1);
+  });
+
+  it('finds several traces in one log', () => {
+    const traces = parseStackTraces([...python, 'some output', ...node], ctx);
+    expect(traces.map((t) => t.language)).toEqual(['python', 'node']);
+  });
+});
+
+describe('stackSignatures', () => {
+  it('ignores messages, line numbers and dependency frames', () => {
+    const moved = node.map((l) =>
+      l.replace('users.js:12:18', 'users.js:15:2').replace('layer.js:95', 'layer.js:97')
+    );
+    moved[0] = "TypeError: Cannot read properties of undefined (reading 'name')";
+    expect(stackSignatures(parseStackTraces(moved, ctx))).toEqual(
+      stackSignatures(parseStackTraces(node, ctx))
+    );
+    expect(stackSignatures(parseStackTraces(node, ctx))).toEqual([
+      'stack | TypeError | src/users.js getUser | src/server.js',
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findStaleIssues,
+  listWorkflowNames,
+  staleComment,
+  sweepIssue,
+  sweepReport,
+  sweepStaleIssues,
+} from '../src/lib/sweep';
+import { renderTracking } from '../src/lib/tracking';
+import { issueUrl, tagged } from './helpers/metadata';
+
+const target = { owner: 'acme', repo: 'app' };
+const repository = 'acme/app';
+const now = '2024-06-30T00:00:00Z';
+
+const issues = [
+  {
+    number: 1,
+    title: 'fresh',
+    body: tagged({ workflow: 'CI', timestamp: '2024-06-25T00:00:00Z' }),
+  },
+  {
+    number: 2,
+    title: 'quiet',
+    body: tagged({ workflow: 'CI', timestamp: '2024-05-01T00:00:00Z' }),
+  },
+  {
+    number: 3,
+    title: 'gone',
+    body: tagged({ workflow: 'Old nightly', timestamp: '2024-06-29T00:00:00Z' }),
+  },
+  {
+    number: 4,
+    title: '[Renamed] failed — general — abc',
+    body: 'created before metadata',
+    html_url: issueUrl(4),
+    updated_at: '2024-06-29T00:00:00Z',
+  },
+  {
+    number: 5,
+    title: '[CI] failed — general — def',
+    body: 'created before metadata',
+    html_url: issueUrl(5),
+    updated_at: '2024-04-01T00:00:00Z',
+  },
+  {
+    number: 6,
+    title: 'other repository',
+    body: tagged({
+      repository: 'acme/api',
+      workflow: 'Nightly',
+      timestamp: '2024-01-01T00:00:00Z',
+    }),
+  },
+] as any[];
+
+const workflows = new Set(['CI', '.github/workflows/ci.yml']);
+
+const options = { days: 30, label: 'stale', comment: '', close: true };
+
+describe('findStaleIssues', () => {
+  it('flags removed workflows and issues quiet for longer than the window', () => {
+    const stale = findStaleIssues(issues, repository, workflows, now, 30);
+    expect(stale.map((s) => [s.issue.number, s.reason])).toEqual([
+      [2, 'inactive'],
+      [3, 'workflow-removed'],
+      [4, 'workflow-removed'],
+      [5, 'inactive'],
+    ]);
+  });
+
+  it('keeps quiet tracking issues until their workflow is gone', () => {
+    const parent = (workflow: string) => ({
+      number: 9,
+      title: `[${workflow}] failures (tracking)`,
+      body: renderTracking({ workflow, children: [] }),
+      html_url: issueUrl(9),
+      updated_at: '2024-01-01T00:00:00Z',
+    });
+    expect(findStaleIssues([parent('CI')] as any[], repository, workflows, now, 30)).toEqual([]);
+    expect(
+      findStaleIssues([parent('Gone')] as any[], repository, workflows, now, 30)[0].reason
+    ).toBe('workflow-removed');
+  });
+
+  it('leaves labelled issues the action did not open alone', () => {
+    const filed = {
+      number: 7,
+      title: 'Flaky login test',
+      body: 'Filed by hand with the failure label',
+      html_url: issueUrl(7),
+      updated_at: '2024-01-01T00:00:00Z',
+    };
+    expect(findStaleIssues([filed] as any[], repository, workflows, now, 30)).toEqual([]);
+  });
+
+  it('skips issues reported by other repositories', () => {
+    expect(findStaleIssues(issues, 'acme/api', new Set(['Nightly']), now, 30)).toEqual([
+      expect.objectContaining({ workflow: 'Nightly', reason: 'inactive' }),
+    ]);
+    expect(findStaleIssues([issues[5]], repository, workflows, now, 30)).toEqual([]);
+  });
+
+  it('only checks workflows when the window is disabled', () => {
+    const stale = findStaleIssues(issues, repository, workflows, now, 0);
+    expect(stale.map((s) => s.issue.number)).toEqual([3, 4]);
+  });
+});
+
+describe('listWorkflowNames', () => {
+  it('collects names and paths', async () => {
+    const octokit = {
+      paginate: async () => [{ name: 'CI', path: '.github/workflows/ci.yml' }],
+      rest: { actions: { listRepoWorkflows: () => undefined } },
+    } as any;
+    expect(await listWorkflowNames(octokit, target)).toEqual(workflows);
+  });
+});
+
+describe('sweepIssue', () => {
+  it('labels, comments and closes', async () => {
+    const addLabels = vi.fn(async () => ({ data: {} }));
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const update = vi.fn(async () => ({ data: {} }));
+    const octokit = { rest: { issues: { addLabels, createComment, update } } } as any;
+    const [stale] = findStaleIssues([issues[2]], repository, workflows, now, 30);
+
+    await sweepIssue(octokit, target, stale, options);
+    expect(addLabels).toHaveBeenCalledWith({ ...target, issue_number: 3, labels: ['stale'] });
+    expect(createComment.mock.calls[0][0].body).toMatch(/`Old nightly` no longer exists/);
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ state: 'closed' }));
+
+    update.mockClear();
+    addLabels.mockClear();
+    await sweepIssue(octokit, target, stale, { ...options, label: '', close: false });
+    expect(addLabels).not.toHaveBeenCalled();
+    expect(update).not.toHaveBeenCalled();
+  });
+});
+
+describe('sweepStaleIssues', () => {
+  it('sweeps each stale issue unless dry-running', async () => {
+    const createComment = vi.fn(async () => ({ data: {} }));
+    const octokit = {
+      rest: { issues: { addLabels: vi.fn(), createComment, update: vi.fn() } },
+    } as any;
+    const sweep = (dryRun: boolean) =>
+      sweepStaleIssues(octokit, target, issues, repository, workflows, now, options, dryRun);
+
+    expect((await sweep(true)).map((s) => s.issue.number)).toEqual([2, 3, 4, 5]);
+    expect(createComment).not.toHaveBeenCalled();
+    await sweep(false);
+    expect(createComment.mock.calls.map((c: any[]) => c[0].issue_number)).toEqual([2, 3, 4, 5]);
+  });
+});
+
+describe('staleComment', () => {
+  it('uses the configured text when given', () => {
+    const [stale] = findStaleIssues([issues[1]], repository, workflows, now, 30);
+    expect(staleComment(stale, { ...options, comment: 'Bye' })).toBe('Bye');
+    expect(staleComment(stale, options)).toMatch(/no recurrence for 30 day\(s\)/);
+  });
+});
+
+describe('sweepReport', () => {
+  it('tables what a dry run would change', () => {
+    const report = sweepReport(
+      findStaleIssues(issues, repository, workflows, now, 30),
+      options,
+      true
+    );
+    expect(report).toContain('(dry run)');
+    expect(report).toContain('would: label `stale`, comment, close.');
+    expect(report).toContain('| #3 | Old nightly | 2024-06-29T00:00:00Z | workflow-removed |');
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const dir = path.join(__dirname, '..', 'templates');
+const read = (name: string) => fs.readFileSync(path.join(dir, name), 'utf8');
+
+/** `{{#key}}…{{/key}}` of a template, as written in default.md. */
+function section(template: string, key: string): string {
+  const start = template.indexOf(`{{#${key}}}`);
+  const close = `{{/${key}}}`;
+  return start < 0 ? '' : template.slice(start, template.indexOf(close, start) + close.length);
+}
+
+describe('templates', () => {
+  const shared = ['annotations.length', 'stackTraces.length', 'logExcerpt', 'parsedErrors.length'];
+  const defaults = read('default.md');
+
+  it.each(fs.readdirSync(dir).filter((f) => f.startsWith('category-')))(
+    '%s renders the sections shared with default.md',
+    (name) => {
+      const template = read(name);
+      for (const key of shared) expect(section(template, key)).toBe(section(defaults, key));
+    }
+  );
+});
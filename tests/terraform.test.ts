@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect } from 'vitest';
+import { loadTerraformFiles, parseTerraformJson, terraformSignatures } from '../src/lib/terraform';
+
+const validate = JSON.stringify({
+  format_version: '1.0',
+  valid: false,
+  error_count: 1,
+  warning_count: 1,
+  diagnostics: [
+    {
+      severity: 'error',
+      summary: 'Unsupported argument',
+      detail: 'An argument named "foo" is not expected here.',
+      range: {
+        filename: 'main.tf',
+        start: { line: 12, column: 3 },
+        end: { line: 12, column: 6 },
+      },
+    },
+    { severity: 'warning', summary: 'Deprecated attribute', detail: '' },
+  ],
+});
+
+const plan = JSON.stringify({
+  format_version: '1.2',
+  terraform_version: '1.7.0',
+  resource_changes: [
+    { address: 'aws_instance.web', change: { actions: ['delete', 'create'] } },
+    { address: 'aws_s3_bucket.logs', change: { actions: ['delete'] } },
+    { address: 'aws_iam_role.ci', change: { actions: ['update'] } },
+  ],
+});
+
+describe('parseTerraformJson', () => {
+  it('reads validate diagnostics with their range', () => {
+    const res = parseTerraformJson(validate);
+    expect(res.diagnostics[0]).toEqual({
+      severity: 'error',
+      summary: 'Unsupported argument',
+      detail: 'An argument named "foo" is not expected here.',
+      file: 'main.tf',
+      range: 'main.tf:12:3-12:6',
+    });
+    expect(res.diagnostics[1]).toMatchObject({ severity: 'warning', range: '' });
+  });
+
+  it('lists destroyed and replaced resources from a plan', () => {
+    expect(parseTerraformJson(plan).destructive).toEqual([
+      { address: 'aws_instance.web', action: 'replace' },
+      { address: 'aws_s3_bucket.logs', action: 'delete' },
+    ]);
+  });
+
+  it('reads the streamed plan -json format', () => {
+    const stream = [
+      { '@level': 'info', type: 'version', terraform: '1.7.0' },
+      {
+        '@level': 'info',
+        type: 'planned_change',
+        change: { resource: { addr: 'null_resource.a' }, action: 'replace' },
+      },
+      {
+        '@level': 'error',
+        type: 'diagnostic',
+        diagnostic: { severity: 'error', summary: 'Invalid reference' },
+      },
+    ]
+      .map((m) => JSON.stringify(m))
+      .join('\n');
+    const res = parseTerraformJson(stream);
+    expect(res.destructive).toEqual([{ address: 'null_resource.a', action: 'replace' }]);
+    expect(res.diagnostics[0].summary).toBe('Invalid reference');
+  });
+
+  it('rejects unrelated JSON', () => {
+    expect(() => parseTerraformJson('{"hello": "world"}')).toThrow('Not Terraform JSON output');
+  });
+});
+
+describe('terraformSignatures', () => {
+  it('keeps syntax failures and drift apart', () => {
+    const syntax = terraformSignatures({ files: [], ...parseTerraformJson(validate) });
+    const drift = terraformSignatures({ files: [], ...parseTerraformJson(plan) });
+    expect(syntax).toEqual(['terraform Unsupported argument (main.tf)']);
+    expect(drift).toEqual([
+      'terraform delete aws_s3_bucket.logs',
+      'terraform replace aws_instance.web',
+    ]);
+  });
+
+  it('gives nothing for warnings-only output', () => {
+    const warnings = JSON.stringify({
+      format_version: '1.0',
+      valid: true,
+      diagnostics: [{ severity: 'warning', summary: 'Deprecated attribute', detail: '' }],
+    });
+    expect(terraformSignatures({ files: [], ...parseTerraformJson(warnings) })).toEqual([]);
+  });
+});
+
+describe('loadTerraformFiles', () => {
+  it('merges validate and plan output', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tf-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'validate.json'), validate);
+      fs.writeFileSync(path.join(dir, 'plan.json'), plan);
+      const summary = await loadTerraformFiles(`${dir}/*.json`);
+      expect(summary?.files).toHaveLength(2);
+      expect(summary?.diagnostics).toHaveLength(2);
+      expect(summary?.destructive).toHaveLength(2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
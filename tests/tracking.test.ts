@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  findTrackingIssue,
+  parseTrackingMode,
+  readTracking,
+  renderTracking,
+  trackChildren,
+  withChildren,
+} from '../src/lib/tracking';
+import { issueUrl } from './helpers/metadata';
+
+const target = { owner: 'acme', repo: 'app' };
+const repository = 'acme/app';
+
+const state = {
+  repository,
+  workflow: 'CI',
+  children: [
+    { number: 3, title: '[CI] failed — general — v2-aaa', open: true },
+    { number: 5, title: '[CI] failed — test — v2-bbb', open: false },
+  ],
+};
+
+/** Octokit over an issue store; `listed` is what other runs created meanwhile. */
+function fakeOctokit(store: any[] = [], listed: any[] = []) {
+  const byNumber = new Map(store.map((i) => [i.number, { ...i }]));
+  const create = vi.fn(async (params: any) => {
+    const data = { number: 40, title: params.title, body: params.body, html_url: issueUrl(40) };
+    byNumber.set(40, data);
+    return { data };
+  });
+  const get = vi.fn(async ({ issue_number }: any) => ({ data: byNumber.get(issue_number) }));
+  const update = vi.fn(async ({ issue_number, ...params }: any) => {
+    Object.assign(byNumber.get(issue_number), params);
+    return { data: {} };
+  });
+  const createComment = vi.fn(async () => ({ data: {} }));
+  const request = vi.fn(async () => ({ data: {} }));
+  const paginate = vi.fn(async () => [...listed, ...byNumber.values()]);
+  return {
+    octokit: {
+      paginate,
+      request,
+      rest: { issues: { create, createComment, get, listForRepo: vi.fn(), update } },
+    } as any,
+    create,
+    createComment,
+    get,
+    update,
+    request,
+  };
+}
+
+describe('parseTrackingMode', () => {
+  it('defaults to none and rejects unknown modes', () => {
+    expect(parseTrackingMode('')).toBe('none');
+    expect(parseTrackingMode(' sub-issues ')).toBe('sub-issues');
+    expect(() => parseTrackingMode('tree')).toThrow(/Unknown tracking-issue mode "tree"/);
+  });
+});
+
+describe('renderTracking', () => {
+  it('renders a task list and round-trips the block', () => {
+    const body = renderTracking(state);
+    expect(body).toContain('1 open, 1 closed');
+    expect(body).toContain('- [ ] #3 general — v2-aaa\n- [x] #5 test — v2-bbb');
+    expect(readTracking(body)).toEqual(state);
+    expect(readTracking('plain body')).toBeNull();
+  });
+});
+
+describe('withChildren', () => {
+  it('adds new children and updates known ones', () => {
+    const next = withChildren(state, [
+      { number: 3, title: '[CI] failed — general — v2-aaa', open: false },
+      { number: 4, title: '[CI] failed — lint — v2-ccc', open: true, id: 1004 },
+    ]);
+    expect(next.children.map((c) => [c.number, c.open])).toEqual([
+      [3, false],
+      [4, true],
+      [5, false],
+    ]);
+    expect(next.children[1]).not.toHaveProperty('id');
+  });
+});
+
+describe('findTrackingIssue', () => {
+  it('keeps the same workflow of different repositories apart', () => {
+    const issues = [
+      { number: 9, title: 't', body: renderTracking({ ...state, repository: 'acme/api' }) },
+      {
+        number: 11,
+        title: 't',
+        body: renderTracking({ workflow: 'CI', children: [] }),
+        html_url: issueUrl(11),
+      },
+    ] as any[];
+    expect(findTrackingIssue(issues, 'acme/api', 'CI')?.number).toBe(9);
+    expect(findTrackingIssue(issues, repository, 'CI')?.number).toBe(11);
+  });
+
+  it('picks the lowest-numbered of duplicate parents', () => {
+    const parent = (number: number) => ({ number, title: 't', body: renderTracking(state) });
+    expect(
+      findTrackingIssue([parent(12), parent(10), parent(14)] as any[], repository, 'CI')?.number
+    ).toBe(10);
+  });
+});
+
+describe('trackChildren', () => {
+  const child = { number: 4, title: '[CI] failed — lint — v2-ccc', open: true, id: 1004 };
+
+  it('creates the tracking issue on first use', async () => {
+    const { octokit, create, createComment, update, request } = fakeOctokit();
+    const parent = await trackChildren(
+      octokit,
+      target,
+      'wf',
+      [],
+      repository,
+      'CI',
+      [child],
+      'task-list'
+    );
+    expect(parent).toBe(40);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ title: '[CI] failures (tracking)', labels: ['wf'] })
+    );
+    const written = readTracking(update.mock.calls[0][0].body);
+    expect(written?.repository).toBe(repository);
+    expect(written?.children.map((c) => c.number)).toEqual([4]);
+    expect(createComment).not.toHaveBeenCalled();
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('yields to a lower-numbered parent created concurrently', async () => {
+    const rival = {
+      number: 38,
+      title: '[CI] failures (tracking)',
+      body: renderTracking({ repository, workflow: 'CI', children: [state.children[0]] }),
+    };
+    const { octokit, createComment, update } = fakeOctokit([rival], [rival]);
+    const parent = await trackChildren(
+      octokit,
+      target,
+      'wf',
+      [],
+      repository,
+      'CI',
+      [child],
+      'task-list'
+    );
+    expect(parent).toBe(38);
+    expect(createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        issue_number: 40,
+        body: expect.stringMatching(/^Duplicate of #38/),
+      })
+    );
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 40, state: 'closed' })
+    );
+    const merged = update.mock.calls.find((c: any[]) => c[0].issue_number === 38)[0];
+    expect(readTracking(merged.body)?.children.map((c) => c.number)).toEqual([3, 4]);
+  });
+
+  it('updates the re-read parent and links new children as sub-issues', async () => {
+    const listed = [
+      { number: 2, title: 'other', body: renderTracking({ workflow: 'Deploy', children: [] }) },
+      { number: 9, title: '[CI] failures (tracking)', body: renderTracking(state) },
+    ];
+    // Another run tracked #6 since the issues were listed
+    const current = {
+      ...listed[1],
+      body: renderTracking(withChildren(state, [{ ...child, number: 6 }])),
+    };
+    const { octokit, create, update, request } = fakeOctokit([current]);
+    expect(findTrackingIssue(listed as any[], repository, 'CI')?.number).toBe(9);
+
+    await trackChildren(
+      octokit,
+      target,
+      'wf',
+      listed as any[],
+      repository,
+      'CI',
+      [child],
+      'sub-issues'
+    );
+    expect(create).not.toHaveBeenCalled();
+    expect(readTracking(update.mock.calls[0][0].body)?.children.map((c) => c.number)).toEqual([
+      3, 4, 5, 6,
+    ]);
+    expect(request).toHaveBeenCalledWith(
+      'POST /repos/{owner}/{repo}/issues/{issue_number}/sub_issues',
+      { ...target, issue_number: 9, sub_issue_id: 1004 }
+    );
+  });
+
+  it('leaves an unchanged parent alone', async () => {
+    const issues = [{ number: 9, title: 't', body: renderTracking(state) }];
+    const { octokit, update, request } = fakeOctokit(issues);
+    await trackChildren(
+      octokit,
+      target,
+      'wf',
+      issues as any[],
+      repository,
+      'CI',
+      [{ ...state.children[0], id: 1003 }],
+      'sub-issues'
+    );
+    expect(update).not.toHaveBeenCalled();
+    expect(request).not.toHaveBeenCalled();
+  });
+});